@@ -0,0 +1,101 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import parser, { bundle, inMemoryLoader } from '.';
+
+describe('bundle', () => {
+  it('parses to the same service as the multi-file original', () => {
+    // ARRANGE
+    const sourcePath = join('src', 'snapshot', 'multi-file', 'openapi.yaml');
+    const sourceContent = readFileSync(sourcePath).toString();
+
+    const original = JSON.parse(
+      JSON.stringify(parser(sourceContent, sourcePath).service, removeLoc),
+    );
+
+    // ACT
+    const { document } = bundle(sourceContent, sourcePath);
+
+    // ASSERT
+    const bundled = JSON.parse(
+      JSON.stringify(parser(document, sourcePath).service, removeLoc),
+    );
+
+    expect(bundled).toStrictEqual(original);
+  });
+
+  it('hoists external nodes into components', () => {
+    // ARRANGE
+    const sourcePath = join('src', 'snapshot', 'multi-file', 'openapi.yaml');
+    const sourceContent = readFileSync(sourcePath).toString();
+
+    // ACT
+    const { document, violations } = bundle(sourceContent, sourcePath);
+
+    // ASSERT
+    const result = JSON.parse(document);
+
+    expect(Object.keys(result.components.schemas)).toEqual(['Pet', 'Category']);
+    expect(Object.keys(result.components.parameters)).toEqual(['PetId']);
+    expect(result.paths['/pets'].get.responses['200']).toEqual({
+      description: 'OK',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/Pet' },
+          },
+        },
+      },
+    });
+    expect(result.components.schemas.Category.properties.parent).toEqual({
+      $ref: '#/components/schemas/Category',
+    });
+    expect(violations.map((v) => v.code)).toEqual([
+      'openapi-3/unresolvable-ref',
+    ]);
+  });
+
+  it('renames colliding components deterministically', () => {
+    // ARRANGE
+    const loader = inMemoryLoader({
+      'other.json': JSON.stringify({
+        Pet: { type: 'object', properties: { tag: { type: 'string' } } },
+      }),
+    });
+
+    const content = JSON.stringify({
+      openapi: '3.0.1',
+      info: { title: 'Collisions', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Pet: { type: 'object', properties: { id: { type: 'string' } } },
+          Owner: {
+            type: 'object',
+            properties: {
+              pet: { $ref: '#/components/schemas/Pet' },
+              otherPet: { $ref: 'other.json#/Pet' },
+            },
+          },
+        },
+      },
+    });
+
+    // ACT
+    const { document } = bundle(content, 'openapi.json', { loader });
+
+    // ASSERT
+    const { schemas } = JSON.parse(document).components;
+
+    expect(Object.keys(schemas)).toEqual(['Pet', 'Owner', 'Pet2']);
+    expect(schemas.Owner.properties.otherPet).toEqual({
+      $ref: '#/components/schemas/Pet2',
+    });
+    expect(schemas.Pet2.properties).toEqual({ tag: { type: 'string' } });
+  });
+});
+
+function removeLoc(key: string, value: any): any {
+  return key === 'loc' ? undefined : value;
+}
@@ -0,0 +1,268 @@
+import { AST } from '@basketry/ast';
+import { Violation } from 'basketry';
+
+import { DocumentSet } from './documents';
+import { ReferenceLoader } from './loaders';
+import * as OAS3 from './types';
+
+export type BundleOptions = {
+  /**
+   * Loads the documents referenced by external `$ref`s. Defaults to reading
+   * from the local file system.
+   */
+  loader?: ReferenceLoader;
+};
+
+/**
+ * Bundles a multi-file OpenAPI document into a single self-contained JSON
+ * document. Swagger 2.0 documents are upgraded to OpenAPI 3.0. External
+ * schemas, parameters, responses, and request bodies are hoisted into
+ * `components` and referenced with local pointers; anything else (eg. path
+ * items) is inlined.
+ */
+export function bundle(
+  content: string,
+  sourcePath: string,
+  options: BundleOptions = {},
+): { document: string; violations: Violation[] } {
+  const documents = new DocumentSet(content, sourcePath, options.loader);
+  const bundler = new Bundler(documents);
+
+  const document = bundler.bundle();
+
+  return {
+    document: JSON.stringify(document, null, 2),
+    violations: [...documents.violations, ...bundler.violations],
+  };
+}
+
+/** A value that can be serialized as JSON */
+type JsonValue = string | number | boolean | null | JsonValue[] | JsonObject;
+type JsonObject = { [key: string]: JsonValue };
+
+type Kind =
+  | 'document'
+  | 'components'
+  | 'paths'
+  | 'pathItem'
+  | 'operation'
+  | 'parameters'
+  | 'parameter'
+  | 'requestBodies'
+  | 'requestBody'
+  | 'responses'
+  | 'response'
+  | 'headers'
+  | 'header'
+  | 'content'
+  | 'mediaType'
+  | 'schemas'
+  | 'schema';
+
+/** The kinds of the named children of each kind of node */
+const childKinds: Partial<Record<Kind, Record<string, Kind>>> = {
+  document: { paths: 'paths', webhooks: 'paths', components: 'components' },
+  components: {
+    schemas: 'schemas',
+    parameters: 'parameters',
+    responses: 'responses',
+    requestBodies: 'requestBodies',
+    headers: 'headers',
+  },
+  pathItem: {
+    parameters: 'parameters',
+    get: 'operation',
+    put: 'operation',
+    post: 'operation',
+    delete: 'operation',
+    options: 'operation',
+    head: 'operation',
+    patch: 'operation',
+    trace: 'operation',
+  },
+  operation: {
+    parameters: 'parameters',
+    requestBody: 'requestBody',
+    responses: 'responses',
+  },
+  parameter: { schema: 'schema', content: 'content' },
+  requestBody: { content: 'content' },
+  response: { headers: 'headers', content: 'content' },
+  header: { schema: 'schema', content: 'content' },
+  mediaType: { schema: 'schema' },
+  schema: {
+    properties: 'schemas',
+    items: 'schema',
+    additionalProperties: 'schema',
+    not: 'schema',
+    allOf: 'schemas',
+    oneOf: 'schemas',
+    anyOf: 'schemas',
+  },
+};
+
+/** The kind of every child of a collection, whether a map or an array */
+const collectionKinds: Partial<Record<Kind, Kind>> = {
+  paths: 'pathItem',
+  parameters: 'parameter',
+  requestBodies: 'requestBody',
+  responses: 'response',
+  headers: 'header',
+  content: 'mediaType',
+  schemas: 'schema',
+};
+
+/** The `components` key under which each kind of node is hoisted */
+const componentKeys: Partial<Record<Kind, string>> = {
+  schema: 'schemas',
+  parameter: 'parameters',
+  requestBody: 'requestBodies',
+  response: 'responses',
+};
+
+function childKind(
+  kind: Kind | undefined,
+  key: string | undefined,
+): Kind | undefined {
+  if (!kind) return;
+  return collectionKinds[kind] || (key ? childKinds[kind]?.[key] : undefined);
+}
+
+class Bundler {
+  constructor(private readonly documents: DocumentSet) {}
+
+  public readonly violations: Violation[] = [];
+
+  /** Hoisted components by component key and then by name */
+  private readonly components: Record<string, JsonObject> = {};
+  private readonly names: Record<string, Set<string>> = {};
+
+  /** Local pointers to the nodes that have already been hoisted */
+  private readonly pointers = new Map<AST.ASTNode, string>();
+
+  /** Refs in the primary document's components that are replaced in place */
+  private readonly inlined = new Set<AST.ASTNode>();
+
+  bundle(): JsonObject {
+    const root = new OAS3.OpenAPINode(this.documents.root);
+    const components = root.components?.node;
+
+    // Existing components keep their names. If one is itself a ref to another
+    // document, the referenced node is inlined and takes its place.
+    for (const group of components?.isObject() ? components.children : []) {
+      const key = group.key.value;
+      if (!group.value.isObject()) continue;
+
+      for (const { key: name, value } of group.value.children) {
+        this.claim(key, name.value);
+        if (!OAS3.isRef(value) || this.isLocal(value)) continue;
+
+        const target = OAS3.resolveRef(this.documents, new OAS3.RefNode(value));
+        if (!target) continue;
+
+        this.pointers.set(
+          target,
+          OAS3.formatPointer(['components', key, name.value]),
+        );
+        this.inlined.add(value);
+      }
+    }
+
+    // The root of a document is always an object
+    const document = this.walk(root.node, 'document') as JsonObject;
+
+    const keys = Object.keys(this.components);
+    if (keys.length) {
+      const merged = (document.components || {}) as JsonObject;
+      for (const key of keys) {
+        merged[key] = {
+          ...(merged[key] as JsonObject),
+          ...this.components[key],
+        };
+      }
+      document.components = merged;
+    }
+
+    return document;
+  }
+
+  private walk(node: AST.ASTNode, kind: Kind | undefined): JsonValue {
+    if (node.isObject()) {
+      if (OAS3.isRef(node)) return this.walkRef(node, kind);
+
+      return node.children.reduce<JsonObject>(
+        (acc, child) => ({
+          ...acc,
+          [child.key.value]: this.walk(
+            child.value,
+            childKind(kind, child.key.value),
+          ),
+        }),
+        {},
+      );
+    } else if (node.isArray()) {
+      return node.children.map((child) =>
+        this.walk(child, childKind(kind, undefined)),
+      );
+    } else if (node.isLiteral()) {
+      return node.value;
+    }
+
+    return null;
+  }
+
+  private walkRef(node: AST.ASTNode, kind: Kind | undefined): JsonValue {
+    if (this.isLocal(node)) return OAS3.toJson(node);
+
+    const ref = new OAS3.RefNode(node);
+    const target = OAS3.resolveRef(this.documents, ref);
+    if (!target) {
+      this.violations.push({
+        code: 'openapi-3/unresolvable-ref',
+        message: `Cannot resolve ref '${ref.$ref.value}'.`,
+        range: ref.$ref.loc,
+        severity: 'error',
+        sourcePath: this.documents.sourcePathOf(node),
+      });
+      return OAS3.toJson(node);
+    }
+
+    if (this.inlined.has(node)) return this.walk(target, kind);
+
+    const existing = this.pointers.get(target);
+    if (existing) return { $ref: existing };
+
+    const key = kind && componentKeys[kind];
+    if (!key) return this.walk(target, kind);
+
+    const name = this.claim(key, OAS3.refName(ref.$ref.value) || kind!);
+    const pointer = OAS3.formatPointer(['components', key, name]);
+
+    // Set the pointer before walking so that recursive refs resolve to it
+    this.pointers.set(target, pointer);
+    this.components[key] = this.components[key] || {};
+    this.components[key][name] = this.walk(target, kind);
+
+    return { $ref: pointer };
+  }
+
+  /** Returns true for refs within the primary document */
+  private isLocal(node: AST.ASTNode): boolean {
+    const { path } = OAS3.splitRef(new OAS3.RefNode(node).$ref.value);
+    return !path && this.documents.isPrimary(node);
+  }
+
+  /**
+   * Reserves a unique name for a component. Names that are already taken get
+   * a numeric suffix (eg. `Pet2`) in the order in which they are encountered.
+   */
+  private claim(key: string, name: string): string {
+    const names = (this.names[key] = this.names[key] || new Set());
+
+    let unique = name;
+    for (let i = 2; names.has(unique); i++) unique = `${name}${i}`;
+
+    names.add(unique);
+    return unique;
+  }
+}
@@ -0,0 +1,57 @@
+import { join } from 'path';
+
+import { run } from './cli';
+
+describe('cli', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+  let warnings: jest.SpyInstance;
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    warnings = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes the bundled document and one line per violation', () => {
+    // ARRANGE
+    const sourcePath = join('src', 'snapshot', 'multi-file', 'openapi.yaml');
+
+    // ACT
+    const exitCode = run([sourcePath]);
+
+    // ASSERT
+    const [[output]] = stdout.mock.calls;
+
+    expect(Object.keys(JSON.parse(output).components.schemas)).toEqual([
+      'Pet',
+      'Category',
+    ]);
+    expect(warnings.mock.calls).toEqual([
+      [
+        `${join(
+          'src',
+          'snapshot',
+          'multi-file',
+          'paths',
+          'pets.yaml',
+        )}:18:17 error openapi-3/unresolvable-ref Cannot resolve ref '../schemas/missing.yaml'.`,
+      ],
+    ]);
+    expect(exitCode).toEqual(1);
+  });
+
+  it('prints the usage without a source path', () => {
+    // ACT
+    const exitCode = run([]);
+
+    // ASSERT
+    expect(stderr).toHaveBeenCalledWith('Usage: openapi-3-bundle <source>');
+    expect(stdout).not.toHaveBeenCalled();
+    expect(exitCode).toEqual(1);
+  });
+});
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { Violation } from 'basketry';
+
+import { bundle } from './bundler';
+
+/** Formats a violation as `sourcePath:line:column severity code message` */
+export function formatViolation(violation: Violation): string {
+  const { sourcePath, range, severity, code, message } = violation;
+  const { line, column } = range.start;
+
+  return `${sourcePath}:${line}:${column} ${severity} ${code} ${message}`;
+}
+
+/**
+ * Writes the bundled document to stdout and any violations to stderr. Returns
+ * the exit code, which is non-zero for usage errors or error violations.
+ */
+export function run(args: string[]): number {
+  const [sourcePath] = args;
+
+  if (!sourcePath) {
+    console.error('Usage: openapi-3-bundle <source>');
+    return 1;
+  }
+
+  const { document, violations } = bundle(
+    readFileSync(sourcePath).toString(),
+    sourcePath,
+  );
+
+  for (const violation of violations) console.warn(formatViolation(violation));
+  process.stdout.write(`${document}\n`);
+
+  return violations.some((v) => v.severity === 'error') ? 1 : 0;
+}
+
+if (require.main === module) process.exitCode = run(process.argv.slice(2));
@@ -0,0 +1,117 @@
+import { dirname, join, normalize } from 'path';
+
+import { AST, parse } from '@basketry/ast';
+import { Violation } from 'basketry';
+
+import { fileSystemLoader, ReferenceLoader } from './loaders';
+import { SourceNode, synthesizeObject, toSourceNode } from './nodes';
+import { isSwagger2, upgrade } from './swagger2';
+
+/**
+ * The set of source documents that make up a single service definition. The
+ * primary document is parsed up front; documents referenced by external
+ * `$ref`s are loaded (and cached) on demand by the loader, relative to the
+ * document that contains the ref. Swagger 2.0 documents are upgraded to the
+ * shape of OpenAPI 3.0 documents as they are loaded.
+ */
+export class DocumentSet {
+  constructor(
+    content: string,
+    public readonly sourcePath: string,
+    private readonly loader: ReferenceLoader = fileSystemLoader,
+  ) {
+    this.root = this.register(sourcePath, parse(content));
+  }
+
+  /** The root node of the primary document */
+  public readonly root: AST.ASTNode;
+
+  /** Violations for constructs that could not be upgraded */
+  public readonly violations: Violation[] = [];
+
+  private readonly documents = new Map<string, AST.ASTNode | undefined>();
+  private readonly upgraded = new Set<AST.ASTNode>();
+
+  /** Returns the path of the document from which the node was parsed. */
+  sourcePathOf(node: AST.ASTNode): string {
+    return node instanceof SourceNode ? node.sourcePath : this.sourcePath;
+  }
+
+  /** Returns the root node of the document from which the node was parsed. */
+  rootOf(node: AST.ASTNode): AST.ASTNode {
+    return this.documents.get(key(this.sourcePathOf(node))) || this.root;
+  }
+
+  /** Returns true if the root was upgraded from a Swagger 2.0 document. */
+  isUpgraded(root: AST.ASTNode): boolean {
+    return this.upgraded.has(root);
+  }
+
+  /** Returns true if the node was parsed from the primary document. */
+  isPrimary(node: AST.ASTNode): boolean {
+    return key(this.sourcePathOf(node)) === key(this.sourcePath);
+  }
+
+  /**
+   * Loads the document at `path` relative to the document that contains the
+   * `from` node. Returns `undefined` if the document cannot be read or parsed.
+   */
+  load(path: string, from: AST.ASTNode): AST.ASTNode | undefined {
+    const sourcePath = join(dirname(this.sourcePathOf(from)), path);
+    const k = key(sourcePath);
+
+    if (!this.documents.has(k)) {
+      this.documents.set(k, undefined);
+      try {
+        const content = this.loader(sourcePath);
+        if (content !== undefined) this.register(sourcePath, parse(content));
+      } catch {}
+    }
+
+    return this.documents.get(k);
+  }
+
+  /**
+   * Returns an object node with the sibling keywords of a `$ref` (eg.
+   * `description`) applied over the keywords of its target, as they are in
+   * JSON Schema 2020-12. The node is cached so that resolving the same ref
+   * again yields the same node.
+   */
+  overlay(ref: AST.ObjectNode, target: AST.ObjectNode): AST.ObjectNode {
+    const existing = this.overlays.get(ref);
+    if (existing) return existing;
+
+    const siblings = ref.children.filter((child) => child.key.value !== '$ref');
+    const keys = new Set(siblings.map((child) => child.key.value));
+
+    const overlay = synthesizeObject(
+      [
+        ...target.children.filter((child) => !keys.has(child.key.value)),
+        ...siblings,
+      ],
+      ref,
+    );
+    this.overlays.set(ref, overlay);
+    return overlay;
+  }
+
+  private readonly overlays = new Map<AST.ASTNode, AST.ObjectNode>();
+
+  private register(sourcePath: string, node: AST.ASTNode): AST.ASTNode {
+    let root: AST.ASTNode = toSourceNode(node, sourcePath);
+
+    if (isSwagger2(root)) {
+      const upgraded = upgrade(root, sourcePath);
+      this.violations.push(...upgraded.violations);
+      root = upgraded.root;
+      this.upgraded.add(root);
+    }
+
+    this.documents.set(key(sourcePath), root);
+    return root;
+  }
+}
+
+function key(sourcePath: string): string {
+  return normalize(sourcePath);
+}
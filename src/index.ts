@@ -1,9 +1,22 @@
 import { Parser } from 'basketry';
 
-import { OAS3Parser } from './parser';
+import {
+  AnyOfMode,
+  InterfaceGrouping,
+  OAS3Parser,
+  ParserOptions,
+} from './parser';
 
-const parser: Parser = (input, sourcePath) => {
-  const oas3Parser = new OAS3Parser(input, sourcePath);
+export { AnyOfMode, InterfaceGrouping, ParserOptions };
+export * from './bundler';
+export * from './loaders';
+
+const parser = (
+  input: string,
+  sourcePath: string,
+  options?: ParserOptions,
+): ReturnType<Parser> => {
+  const oas3Parser = new OAS3Parser(input, sourcePath, options);
   const service = oas3Parser.parse();
   const violations = oas3Parser.violations;
   return { service, violations };
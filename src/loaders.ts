@@ -0,0 +1,34 @@
+import { readFileSync } from 'fs';
+import { normalize } from 'path';
+
+/**
+ * Loads the content of the document referenced by an external `$ref`. The
+ * path is already resolved relative to the document that contains the ref.
+ * Returns `undefined` if the document does not exist.
+ */
+export interface ReferenceLoader {
+  (path: string): string | undefined;
+}
+
+/** Loads referenced documents from the local file system. */
+export const fileSystemLoader: ReferenceLoader = (path) => {
+  try {
+    return readFileSync(path).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates a loader that reads referenced documents from a map of paths to
+ * document content.
+ */
+export function inMemoryLoader(
+  documents: Record<string, string>,
+): ReferenceLoader {
+  const contentByPath = new Map<string, string>(
+    Object.keys(documents).map((path) => [normalize(path), documents[path]]),
+  );
+
+  return (path) => contentByPath.get(normalize(path));
+}
@@ -0,0 +1,177 @@
+import { AST } from '@basketry/ast';
+import { Range } from 'basketry';
+
+// The nodes returned by `parse` are created lazily on each access and so don't
+// have a stable identity. Copying the tree up front lets every node carry the
+// path of the document it came from.
+
+export abstract class SourceNode extends AST.BaseNode {
+  constructor(public readonly sourcePath: string, public readonly loc: Range) {
+    super();
+  }
+}
+
+class SourceObjectNode extends SourceNode implements AST.ObjectNode {
+  public readonly type = 'Object';
+
+  constructor(
+    sourcePath: string,
+    loc: Range,
+    public readonly children: AST.PropertyNode[],
+  ) {
+    super(sourcePath, loc);
+  }
+}
+
+class SourcePropertyNode extends SourceNode implements AST.PropertyNode {
+  public readonly type = 'Property';
+
+  constructor(
+    sourcePath: string,
+    loc: Range,
+    public readonly key: AST.IdentifierNode,
+    public readonly value: AST.ValueNode,
+  ) {
+    super(sourcePath, loc);
+  }
+}
+
+class SourceIdentifierNode extends SourceNode implements AST.IdentifierNode {
+  public readonly type = 'Identifier';
+
+  constructor(sourcePath: string, loc: Range, public readonly value: string) {
+    super(sourcePath, loc);
+  }
+}
+
+class SourceArrayNode extends SourceNode implements AST.ArrayNode {
+  public readonly type = 'Array';
+
+  constructor(
+    sourcePath: string,
+    loc: Range,
+    public readonly children: AST.ValueNode[],
+  ) {
+    super(sourcePath, loc);
+  }
+}
+
+class SourceLiteralNode extends SourceNode implements AST.LiteralNode {
+  public readonly type = 'Literal';
+
+  constructor(
+    sourcePath: string,
+    loc: Range,
+    public readonly value: string | number | boolean | null,
+  ) {
+    super(sourcePath, loc);
+  }
+}
+
+/** Copies a parsed tree into nodes that carry the path of their document. */
+export function toSourceNode(
+  node: AST.ASTNode,
+  sourcePath: string,
+): AST.ValueNode {
+  if (node.isObject()) {
+    return new SourceObjectNode(
+      sourcePath,
+      node.loc,
+      node.children.map(
+        (child) =>
+          new SourcePropertyNode(
+            sourcePath,
+            child.loc,
+            new SourceIdentifierNode(
+              sourcePath,
+              child.key.loc,
+              child.key.value,
+            ),
+            toSourceNode(child.value, sourcePath),
+          ),
+      ),
+    );
+  }
+  if (node.isArray()) {
+    return new SourceArrayNode(
+      sourcePath,
+      node.loc,
+      node.children.map((child) => toSourceNode(child, sourcePath)),
+    );
+  }
+  if (node.isLiteral()) {
+    return new SourceLiteralNode(sourcePath, node.loc, node.value);
+  }
+  throw new Error(`Unexpected node type: ${node.type}`);
+}
+
+/** A value from which to create nodes. Existing nodes are kept as they are. */
+export type Synthetic =
+  | AST.ValueNode
+  | string
+  | number
+  | boolean
+  | null
+  | Synthetic[]
+  | { [key: string]: Synthetic | undefined };
+
+function sourcePathOf(node: AST.ASTNode): string {
+  return node instanceof SourceNode ? node.sourcePath : '';
+}
+
+/**
+ * Creates nodes for a value that doesn't appear as such in any document (eg.
+ * an upgraded Swagger 2.0 construct). New nodes are located at the node from
+ * which they are derived so that violations still point to the original
+ * source. Object keys with `undefined` values are omitted.
+ */
+export function synthesize(value: Synthetic, from: AST.ASTNode): AST.ValueNode {
+  const sourcePath = sourcePathOf(from);
+
+  if (value instanceof AST.BaseNode) return value as AST.ValueNode;
+  if (Array.isArray(value)) {
+    return new SourceArrayNode(
+      sourcePath,
+      from.loc,
+      value.map((item) => synthesize(item, from)),
+    );
+  }
+  if (value !== null && typeof value === 'object') {
+    return synthesizeObject(
+      Object.keys(value)
+        .filter((key) => value[key] !== undefined)
+        .map((key) => synthesizeProperty(key, value[key]!, from)),
+      from,
+    );
+  }
+  return new SourceLiteralNode(sourcePath, from.loc, value);
+}
+
+/**
+ * Creates a property node. An existing key is kept as it is; a new key is
+ * located at the `from` node.
+ */
+export function synthesizeProperty(
+  key: string | AST.IdentifierNode,
+  value: Synthetic,
+  from: AST.ASTNode,
+): AST.PropertyNode {
+  const sourcePath = sourcePathOf(from);
+
+  return new SourcePropertyNode(
+    sourcePath,
+    from.loc,
+    typeof key === 'string'
+      ? new SourceIdentifierNode(sourcePath, from.loc, key)
+      : key,
+    synthesize(value, from),
+  );
+}
+
+/** Creates an object node from existing or synthesized properties. */
+export function synthesizeObject(
+  children: AST.PropertyNode[],
+  from: AST.ASTNode,
+): AST.ObjectNode {
+  return new SourceObjectNode(sourcePathOf(from), from.loc, children);
+}
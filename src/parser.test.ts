@@ -2,8 +2,8 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import * as https from 'https';
 
-import { ReturnType, Service, validate } from 'basketry';
-import parser from '.';
+import { Enum, ReturnType, Service, validate } from 'basketry';
+import parser, { bundle, inMemoryLoader, ParserOptions } from '.';
 
 function noSource(service: Service): Omit<Service, 'sourcePath'> {
   const { sourcePath, ...rest } = service;
@@ -11,6 +11,34 @@ function noSource(service: Service): Omit<Service, 'sourcePath'> {
 }
 import { dump as yamlStringify } from 'yaml-ast-parser';
 
+/** The parts of an OpenAPI document that the tests vary */
+type TestDocument = {
+  openapi?: string;
+  paths?: Record<string, unknown>;
+  schemas?: Record<string, unknown>;
+  /** Pretty-prints the content so that violations have distinct lines */
+  indent?: number;
+};
+
+/** Parses a minimal OpenAPI document with the given paths and schemas */
+function parseDocument(
+  { openapi = '3.0.3', paths = {}, schemas, indent }: TestDocument,
+  options?: ParserOptions,
+) {
+  const content = JSON.stringify(
+    {
+      openapi,
+      info: { title: 'Test', version: '1.0.0' },
+      paths,
+      ...(schemas ? { components: { schemas } } : {}),
+    },
+    null,
+    indent,
+  );
+
+  return parser(content, 'openapi.json', options);
+}
+
 describe('parser', () => {
   it('recreates a valid exhaustive snapshot', () => {
     // ARRANGE
@@ -153,6 +181,2799 @@ describe('parser', () => {
     expect(errors).toEqual([]);
   });
 
+  describe('external refs', () => {
+    const sourcePath = join('src', 'snapshot', 'multi-file', 'openapi.yaml');
+    const sourceContent = readFileSync(sourcePath).toString();
+
+    it('resolves refs to other files relative to the source path', () => {
+      // ACT
+      const service = parser(sourceContent, sourcePath).service;
+
+      // ASSERT
+      const typeNames = service.types.map((t) => t.name.value);
+      expect(typeNames).toEqual(expect.arrayContaining(['Pet', 'Category']));
+
+      const methods = service.interfaces
+        .map((i) => i.methods)
+        .reduce((a, b) => a.concat(b), []);
+      const getPets = methods.find((m) => m.name.value === 'getPets');
+      const getPet = methods.find((m) => m.name.value === 'getPet');
+
+      expect(getPets?.returnType?.typeName.value).toEqual('Pet');
+      expect(getPets?.returnType?.isArray).toEqual(true);
+      expect(getPet?.parameters.map((p) => p.name.value)).toEqual(['id']);
+    });
+
+    it('creates a valid service', () => {
+      // ARRANGE
+      const service = parser(sourceContent, sourcePath).service;
+
+      // ACT
+      const errors = validate(service).errors;
+
+      // ASSERT
+      expect(errors).toEqual([]);
+    });
+
+    it('creates a violation for a ref to a missing file', () => {
+      // ACT
+      const violations = parser(sourceContent, sourcePath).violations;
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/unresolvable-ref',
+          severity: 'error',
+          sourcePath: join(
+            'src',
+            'snapshot',
+            'multi-file',
+            'paths',
+            'pets.yaml',
+          ),
+        }),
+      ]);
+    });
+
+    it('resolves refs with a custom loader', () => {
+      // ARRANGE
+      const loader = inMemoryLoader({
+        'specs/common.json': JSON.stringify({
+          Widget: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+        }),
+      });
+
+      const content = JSON.stringify({
+        openapi: '3.0.1',
+        info: { title: 'In-memory', version: '1.0.0' },
+        paths: {
+          '/widgets': {
+            get: {
+              operationId: 'getWidget',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { $ref: 'common.json#/Widget' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      // ACT
+      const { service, violations } = parser(
+        content,
+        join('specs', 'openapi.json'),
+        { loader },
+      );
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value)).toEqual(['Widget']);
+      expect(service.types[0].properties.map((p) => p.name.value)).toEqual([
+        'id',
+      ]);
+    });
+  });
+
+  describe('JSON Pointer refs', () => {
+    const parse = (
+      paths: TestDocument['paths'],
+      schemas: TestDocument['schemas'],
+    ) => parseDocument({ paths, schemas });
+
+    const responses = (schema: any) => ({
+      '200': {
+        description: 'OK',
+        content: { 'application/json': { schema } },
+      },
+    });
+
+    it('resolves escaped, percent-encoded, and array index tokens', () => {
+      // ACT
+      const { service, violations } = parse(
+        {
+          '/pets/{id}': {
+            get: {
+              operationId: 'getPet',
+              parameters: [
+                { name: 'id', in: 'path', required: true, schema: {} },
+              ],
+              responses: responses({ $ref: '#/components/schemas/Pet%20Type' }),
+            },
+          },
+          '/owners/{id}': {
+            get: {
+              operationId: 'getOwner',
+              parameters: [
+                { $ref: '#/paths/~1pets~1%7Bid%7D/get/parameters/0' },
+              ],
+              responses: responses({ $ref: '#/components/schemas/a~0b' }),
+            },
+          },
+        },
+        {
+          'Pet Type': { type: 'object', properties: {} },
+          'a~b': {
+            allOf: [{ type: 'object', properties: { x: { type: 'string' } } }],
+          },
+          Alias: { $ref: '#/components/schemas/a~0b/allOf/0' },
+        },
+      );
+
+      // ASSERT
+      const methods = service.interfaces
+        .map((i) => i.methods)
+        .reduce((a, b) => a.concat(b), []);
+      const getPet = methods.find((m) => m.name.value === 'getPet');
+      const getOwner = methods.find((m) => m.name.value === 'getOwner');
+      const alias = service.types.find((t) => t.name.value === 'Alias');
+
+      expect(violations).toEqual([]);
+      expect(getPet?.returnType?.typeName.value).toEqual('Pet Type');
+      expect(getOwner?.returnType?.typeName.value).toEqual('a~b');
+      expect(getOwner?.parameters.map((p) => p.name.value)).toEqual(['id']);
+      expect(alias?.properties.map((p) => p.name.value)).toEqual(['x']);
+    });
+
+    it('creates located violations for unresolvable refs', () => {
+      // ACT
+      const { violations } = parse(
+        {
+          '/pets': {
+            get: {
+              operationId: 'getPets',
+              responses: responses({ $ref: '#/components/schemas/Pet/0' }),
+            },
+          },
+        },
+        { Pet: { type: 'object', properties: {} } },
+      );
+
+      // ASSERT
+      expect(violations).toEqual([
+        {
+          code: 'openapi-3/unresolvable-ref',
+          message:
+            "Cannot resolve ref '#/components/schemas/Pet/0'. Cannot find '0'.",
+          range: expect.objectContaining({ start: expect.anything() }),
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        },
+      ]);
+    });
+  });
+
+  describe('circular schemas', () => {
+    const parse = (schemas: TestDocument['schemas']) =>
+      parseDocument({
+        paths: {
+          '/nodes': {
+            get: {
+              operationId: 'getNode',
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/Node' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        schemas,
+      });
+
+    it('reuses the type name of a recursive inline schema', () => {
+      // ACT
+      const { service, violations } = parse({
+        Node: {
+          type: 'object',
+          properties: {
+            child: {
+              type: 'object',
+              properties: {
+                children: {
+                  type: 'array',
+                  items: {
+                    $ref: '#/components/schemas/Node/properties/child',
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      const child = service.types.find((t) => t.name.value === 'nodeChild');
+
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value)).toEqual([
+        'Node',
+        'nodeChild',
+      ]);
+      expect(child?.properties[0].typeName.value).toEqual('nodeChild');
+      expect(child?.properties[0].isArray).toEqual(true);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('creates a violation for a schema that includes itself via allOf', () => {
+      // ACT
+      const { service, violations } = parse({
+        Node: {
+          allOf: [
+            { $ref: '#/components/schemas/Node' },
+            { type: 'object', properties: { id: { type: 'string' } } },
+          ],
+        },
+      });
+
+      // ASSERT
+      const node = service.types.find((t) => t.name.value === 'Node');
+
+      expect(node?.properties.map((p) => p.name.value)).toEqual(['id']);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/circular-schema',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+
+    it('creates a violation for a schema that is an array of itself', () => {
+      // ACT
+      const { violations } = parse({
+        Node: {
+          type: 'object',
+          properties: { tree: { $ref: '#/components/schemas/Tree' } },
+        },
+        Tree: { type: 'array', items: { $ref: '#/components/schemas/Tree' } },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/circular-schema',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+  });
+
+  describe('OpenAPI 3.1 schemas', () => {
+    const parse = (openapi: string, schemas: TestDocument['schemas']) =>
+      parseDocument({ openapi, schemas });
+
+    function propertiesOf(service: Service, typeName: string) {
+      return service.types.find((t) => t.name.value === typeName)?.properties;
+    }
+
+    it('parses type arrays and null types as primitives', () => {
+      // ACT
+      const { service, violations } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: {
+            name: { type: ['string', 'null'], maxLength: 10 },
+            nothing: { type: 'null' },
+            tags: { type: ['array', 'null'], items: { type: 'string' } },
+          },
+        },
+      });
+
+      // ASSERT
+      const [name, nothing, tags] = propertiesOf(service, 'Widget') || [];
+
+      expect(violations).toEqual([]);
+      expect(name.typeName.value).toEqual('string');
+      expect(name.isPrimitive).toEqual(true);
+      expect(name.rules.map((r) => r.id)).toEqual(['string-max-length']);
+      expect(nothing.typeName.value).toEqual('null');
+      expect(tags.typeName.value).toEqual('string');
+      expect(tags.isArray).toEqual(true);
+    });
+
+    it('creates a violation for multiple non-null types', () => {
+      // ACT
+      const { service, violations } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: { id: { type: ['string', 'integer'] } },
+        },
+      });
+
+      // ASSERT
+      expect(propertiesOf(service, 'Widget')?.[0].typeName.value).toEqual(
+        'string',
+      );
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          severity: 'warning',
+        }),
+      ]);
+    });
+
+    it('creates each violation once for multiple non-null types', () => {
+      // ACT
+      const { violations } = parseDocument(
+        {
+          openapi: '3.1.0',
+          paths: {
+            '/widgets': {
+              post: {
+                operationId: 'createWidget',
+                requestBody: {
+                  content: {
+                    'application/json': {
+                      schema: {
+                        type: 'object',
+                        properties: { id: { type: ['string', 'integer'] } },
+                      },
+                    },
+                  },
+                },
+                responses: {
+                  '200': {
+                    description: 'OK',
+                    content: {
+                      'application/json': {
+                        schema: { $ref: '#/components/schemas/Widget' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          schemas: {
+            Widget: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', readOnly: true },
+                size: { type: ['number', 'string'] },
+              },
+            },
+          },
+        },
+        { splitReadWriteTypes: true },
+      );
+
+      // ASSERT
+      expect(violations).toHaveLength(2);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          message:
+            "Multiple non-null types are not yet supported. Only 'string' will be used.",
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          message:
+            "Multiple non-null types are not yet supported. Only 'number' will be used.",
+        }),
+      ]);
+    });
+
+    it('parses numeric and boolean exclusive bounds', () => {
+      // ACT
+      const { service } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: {
+            a: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 10 },
+            b: {
+              type: 'number',
+              minimum: 0,
+              exclusiveMinimum: true,
+              maximum: 10,
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      const [a, b] = propertiesOf(service, 'Widget') || [];
+
+      expect(a.rules).toEqual([
+        expect.objectContaining({
+          id: 'number-gt',
+          value: { value: 0, loc: expect.any(String) },
+        }),
+        expect.objectContaining({
+          id: 'number-lt',
+          value: { value: 10, loc: expect.any(String) },
+        }),
+      ]);
+      expect(b.rules.map((r) => r.id)).toEqual(['number-gt', 'number-lte']);
+    });
+
+    it('parses boolean subschemas as untyped values', () => {
+      // ACT
+      const { service, violations } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: {
+            anything: true,
+            nothing: false,
+            list: { type: 'array', items: true },
+          },
+        },
+      });
+
+      // ASSERT
+      const properties = propertiesOf(service, 'Widget') || [];
+
+      expect(
+        properties.map((p) => [p.name.value, p.typeName.value, p.isArray]),
+      ).toEqual([
+        ['anything', 'untyped', false],
+        ['nothing', 'untyped', false],
+        ['list', 'untyped', true],
+      ]);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          severity: 'warning',
+        }),
+      ]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('parses arrays without items as untyped arrays', () => {
+      // ACT
+      const { service, violations } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: { list: { type: 'array' } },
+        },
+      });
+
+      // ASSERT
+      const [list] = propertiesOf(service, 'Widget') || [];
+
+      expect(list.typeName.value).toEqual('untyped');
+      expect(list.isPrimitive).toEqual(true);
+      expect(list.isArray).toEqual(true);
+      expect(violations).toEqual([]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('creates a violation for tuples', () => {
+      // ACT
+      const { service, violations } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: {
+            point: {
+              type: 'array',
+              prefixItems: [{ type: 'number' }, { type: 'number' }],
+            },
+            labels: {
+              type: 'array',
+              prefixItems: [{ type: 'integer' }],
+              items: { type: 'string' },
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      const properties = propertiesOf(service, 'Widget') || [];
+
+      expect(
+        properties.map((p) => [p.name.value, p.typeName.value, p.isArray]),
+      ).toEqual([
+        ['point', 'untyped', true],
+        ['labels', 'string', true],
+      ]);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          severity: 'warning',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          severity: 'warning',
+        }),
+      ]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('applies the sibling keywords of a ref', () => {
+      // ACT
+      const { service } = parse('3.1.0', {
+        Name: { type: 'string', description: 'A name' },
+        Widget: {
+          type: 'object',
+          properties: {
+            name: {
+              $ref: '#/components/schemas/Name',
+              description: 'The name of the widget',
+              maxLength: 10,
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      const [name] = propertiesOf(service, 'Widget') || [];
+
+      expect(name.typeName.value).toEqual('string');
+      expect(name.description).toEqual(
+        expect.objectContaining({ value: 'The name of the widget' }),
+      );
+      expect(name.rules.map((r) => r.id)).toEqual(['string-max-length']);
+    });
+
+    it('ignores the sibling keywords of a ref in OpenAPI 3.0', () => {
+      // ACT
+      const { service } = parse('3.0.3', {
+        Name: { type: 'string', description: 'A name' },
+        Widget: {
+          type: 'object',
+          properties: {
+            name: {
+              $ref: '#/components/schemas/Name',
+              description: 'The name of the widget',
+              maxLength: 10,
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      const [name] = propertiesOf(service, 'Widget') || [];
+
+      expect(name.description).toEqual(
+        expect.objectContaining({ value: 'A name' }),
+      );
+      expect(name.rules).toEqual([]);
+    });
+  });
+
+  describe('nullable', () => {
+    const parse = (
+      openapi: string,
+      schemas: TestDocument['schemas'],
+      paths?: TestDocument['paths'],
+    ) => parseDocument({ openapi, schemas, paths });
+
+    const nullable = [{ key: { value: 'nullable' }, value: { value: true } }];
+
+    it('marks nullable properties, parameters, and return types', () => {
+      // ACT
+      const { service, violations } = parse(
+        '3.0.3',
+        {
+          Widget: {
+            type: 'object',
+            required: ['createdAt'],
+            properties: {
+              createdAt: { type: 'string', format: 'date' },
+              deletedAt: { type: 'string', format: 'date', nullable: true },
+            },
+          },
+        },
+        {
+          '/widgets': {
+            get: {
+              operationId: 'getWidget',
+              parameters: [
+                {
+                  name: 'since',
+                  in: 'query',
+                  schema: { type: 'string', nullable: true },
+                },
+              ],
+              responses: {
+                '200': {
+                  description: 'ok',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'string', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      );
+
+      // ASSERT
+      const [createdAt, deletedAt] = service.types[0].properties;
+      const [method] = service.interfaces[0].methods;
+
+      expect(violations).toEqual([]);
+      expect(createdAt.meta).toBeUndefined();
+      expect(deletedAt.meta).toEqual(nullable);
+      expect(method.parameters[0].meta).toEqual(nullable);
+      expect(method.returnType?.meta).toEqual(nullable);
+    });
+
+    it('marks properties with a null type as nullable', () => {
+      // ACT
+      const { service } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          properties: {
+            createdAt: { type: 'string', format: 'date' },
+            deletedAt: { type: ['string', 'null'], format: 'date' },
+          },
+        },
+      });
+
+      // ASSERT
+      const [createdAt, deletedAt] = service.types[0].properties;
+
+      expect(createdAt.meta).toBeUndefined();
+      expect(deletedAt.meta).toEqual(nullable);
+    });
+
+    it('creates violations for contradictory nullability', () => {
+      // ACT
+      const { violations } = parse('3.1.0', {
+        Widget: {
+          type: 'object',
+          required: ['a'],
+          properties: {
+            a: { type: 'string', nullable: true, default: 'none' },
+            b: { type: ['string', 'null'], nullable: false },
+            c: { type: 'string', default: null },
+          },
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/nullable-contradiction',
+          message:
+            'The value is nullable and required but has a non-null default.',
+          severity: 'warning',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/nullable-contradiction',
+          message: "The schema has a 'null' type but is not nullable.",
+          severity: 'warning',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/nullable-contradiction',
+          message: 'The default is null but the schema is not nullable.',
+          severity: 'warning',
+        }),
+      ]);
+    });
+
+    it('creates each violation once for request body properties', () => {
+      // ACT
+      const { violations } = parse(
+        '3.0.3',
+        {},
+        {
+          '/widgets': {
+            post: {
+              operationId: 'createWidget',
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      required: ['a'],
+                      properties: {
+                        a: { type: 'string', nullable: true, default: 'none' },
+                      },
+                    },
+                  },
+                },
+              },
+              responses: { '204': { description: 'OK' } },
+            },
+          },
+        },
+      );
+
+      // ASSERT
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toEqual(
+        'The value is nullable and required but has a non-null default.',
+      );
+    });
+  });
+
+  describe('additionalProperties', () => {
+    const parse = (schemas: TestDocument['schemas']) =>
+      parseDocument({ schemas });
+
+    function additionalPropertiesOf(service: Service, typeName: string) {
+      return service.types
+        .find((t) => t.name.value === typeName)
+        ?.meta?.find((m) => m.key.value === 'additionalProperties')?.value
+        .value;
+    }
+
+    it('describes the values of maps', () => {
+      // ACT
+      const { service, violations } = parse({
+        Pet: { type: 'object', properties: { name: { type: 'string' } } },
+        PetsByName: {
+          type: 'object',
+          additionalProperties: { $ref: '#/components/schemas/Pet' },
+        },
+        TagsByName: {
+          type: 'object',
+          additionalProperties: { type: 'array', items: { type: 'string' } },
+        },
+        Anything: { type: 'object', additionalProperties: true },
+        Closed: { type: 'object', additionalProperties: false },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(additionalPropertiesOf(service, 'PetsByName')).toEqual({
+        typeName: 'Pet',
+        isPrimitive: false,
+        isArray: false,
+      });
+      expect(additionalPropertiesOf(service, 'TagsByName')).toEqual({
+        typeName: 'string',
+        isPrimitive: true,
+        isArray: true,
+      });
+      expect(additionalPropertiesOf(service, 'Anything')).toEqual({
+        typeName: 'untyped',
+        isPrimitive: true,
+        isArray: false,
+      });
+      expect(additionalPropertiesOf(service, 'Closed')).toBeUndefined();
+    });
+
+    it('describes the values of objects with declared properties', () => {
+      // ACT
+      const { service } = parse({
+        Widget: {
+          type: 'object',
+          properties: {
+            labels: {
+              type: 'object',
+              properties: { name: { type: 'string' } },
+              additionalProperties: {
+                type: 'object',
+                properties: { value: { type: 'string' } },
+              },
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      expect(
+        service.types
+          .find((t) => t.name.value === 'widgetLabels')
+          ?.properties.map((p) => p.name.value),
+      ).toEqual(['name']);
+      expect(additionalPropertiesOf(service, 'widgetLabels')).toEqual({
+        typeName: 'widgetLabelsValue',
+        isPrimitive: false,
+        isArray: false,
+      });
+      expect(service.types.map((t) => t.name.value)).toContain(
+        'widgetLabelsValue',
+      );
+      expect(validate(service).errors).toEqual([]);
+    });
+  });
+
+  describe('readOnly and writeOnly properties', () => {
+    const content = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Variants', version: '1.0.0' },
+      paths: {
+        '/orders': {
+          post: {
+            operationId: 'createOrder',
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/Order' },
+                },
+              },
+            },
+            responses: {
+              '200': {
+                description: 'ok',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/Order' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Tag: { type: 'object', properties: { name: { type: 'string' } } },
+          Pet: {
+            type: 'object',
+            required: ['id', 'name'],
+            properties: {
+              id: { type: 'string', readOnly: true },
+              name: { type: 'string' },
+              password: { type: 'string', writeOnly: true },
+              tag: { $ref: '#/components/schemas/Tag' },
+            },
+          },
+          Order: {
+            type: 'object',
+            properties: {
+              pets: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/Pet' },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    function propertiesOf(service: Service, typeName: string) {
+      return service.types
+        .find((t) => t.name.value === typeName)
+        ?.properties.map((p) => `${p.name.value}: ${p.typeName.value}`);
+    }
+
+    it('splits schemas into request and response variants', () => {
+      // ACT
+      const { service, violations } = parser(content, 'openapi.json', {
+        splitReadWriteTypes: true,
+      });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value).sort()).toEqual([
+        'OrderInput',
+        'OrderOutput',
+        'PetInput',
+        'PetOutput',
+        'Tag',
+      ]);
+      expect(propertiesOf(service, 'PetInput')).toEqual([
+        'name: string',
+        'password: string',
+        'tag: Tag',
+      ]);
+      expect(propertiesOf(service, 'PetOutput')).toEqual([
+        'id: string',
+        'name: string',
+        'tag: Tag',
+      ]);
+      expect(propertiesOf(service, 'OrderInput')).toEqual(['pets: PetInput']);
+      expect(propertiesOf(service, 'OrderOutput')).toEqual(['pets: PetOutput']);
+    });
+
+    it('refers to the variants from parameters and return types', () => {
+      // ACT
+      const { service } = parser(content, 'openapi.json', {
+        splitReadWriteTypes: true,
+      });
+
+      // ASSERT
+      const [method] = service.interfaces[0].methods;
+
+      expect(method.parameters[0].typeName.value).toEqual('OrderInput');
+      expect(method.returnType?.typeName.value).toEqual('OrderOutput');
+      expect(method.returnType?.isArray).toEqual(true);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('does not split schemas by default', () => {
+      // ACT
+      const { service } = parser(content, 'openapi.json');
+
+      // ASSERT
+      expect(service.types.map((t) => t.name.value)).toEqual([
+        'Tag',
+        'Pet',
+        'Order',
+      ]);
+      expect(propertiesOf(service, 'Pet')).toEqual([
+        'id: string',
+        'name: string',
+        'password: string',
+        'tag: Tag',
+      ]);
+    });
+  });
+
+  describe('numeric enums', () => {
+    const content = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Enums', version: '1.0.0' },
+      paths: {
+        '/widgets': {
+          get: {
+            operationId: 'getWidgets',
+            parameters: [
+              {
+                name: 'size',
+                in: 'query',
+                schema: { type: 'integer', format: 'int32', enum: [1, 2, 3] },
+              },
+              {
+                name: 'version',
+                in: 'query',
+                schema: { type: 'integer', enum: [2] },
+              },
+            ],
+            responses: { '204': { description: 'ok' } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Ratio: { type: 'number', format: 'double', enum: [0.5, 1, 1.5] },
+          Widget: {
+            type: 'object',
+            properties: { ratio: { $ref: '#/components/schemas/Ratio' } },
+          },
+        },
+      },
+    });
+
+    it('parses inline and component enums', () => {
+      // ACT
+      const { service, violations } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const enumsByName = service.enums.reduce<Record<string, Enum>>(
+        (acc, e) => ({ ...acc, [e.name.value]: e }),
+        {},
+      );
+
+      expect(violations).toEqual([]);
+      expect(
+        enumsByName.getWidgetsSize.values.map((v) => v.content.value),
+      ).toEqual(['1', '2', '3']);
+      expect(enumsByName.getWidgetsSize.meta).toEqual([
+        { key: { value: 'valueType' }, value: { value: 'integer' } },
+      ]);
+      expect(enumsByName.Ratio.values.map((v) => v.content.value)).toEqual([
+        '0.5',
+        '1',
+        '1.5',
+      ]);
+      expect(enumsByName.Ratio.meta).toEqual([
+        { key: { value: 'valueType' }, value: { value: 'double' } },
+      ]);
+      expect(service.types[0].properties[0].typeName.value).toEqual('Ratio');
+    });
+
+    it('parses enum parameters', () => {
+      // ACT
+      const { service } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [size, version] = service.interfaces[0].methods[0].parameters;
+
+      expect(size.typeName.value).toEqual('getWidgetsSize');
+      expect(size.isPrimitive).toEqual(false);
+      expect(version.typeName.value).toEqual('integer');
+      expect(version.isPrimitive).toEqual(true);
+      expect(validate(service).errors).toEqual([]);
+    });
+  });
+
+  describe('enum extensions', () => {
+    const parse = (schemas: TestDocument['schemas']) =>
+      parseDocument({ schemas });
+
+    it('parses the names and descriptions of enum values', () => {
+      // ACT
+      const { service, violations } = parse({
+        Status: {
+          type: 'string',
+          enum: ['in-progress', 'PENDING_REVIEW'],
+          'x-enum-varnames': ['InProgress', 'PendingReview'],
+          'x-enum-descriptions': ['Being worked on', 'Awaiting review'],
+        },
+        Priority: {
+          type: 'integer',
+          enum: [1, 2],
+          'x-enumNames': ['Low', 'High'],
+        },
+        Widget: {
+          type: 'object',
+          properties: {
+            status: { $ref: '#/components/schemas/Status' },
+            priority: { $ref: '#/components/schemas/Priority' },
+          },
+        },
+      });
+
+      // ASSERT
+      const [status, priority] = service.enums;
+
+      expect(violations).toEqual([]);
+      expect(
+        status.values.map((v) => [v.meta?.[0].value.value, v.description]),
+      ).toEqual([
+        ['InProgress', { value: 'Being worked on', loc: expect.any(String) }],
+        [
+          'PendingReview',
+          { value: 'Awaiting review', loc: expect.any(String) },
+        ],
+      ]);
+      expect(priority.values.map((v) => v.meta)).toEqual([
+        [
+          {
+            key: { value: 'name' },
+            value: { value: 'Low', loc: expect.any(String) },
+          },
+        ],
+        [
+          {
+            key: { value: 'name' },
+            value: { value: 'High', loc: expect.any(String) },
+          },
+        ],
+      ]);
+    });
+
+    it('creates a violation for each extension with the wrong number of items', () => {
+      // ACT
+      const { service, violations } = parse({
+        Status: {
+          type: 'string',
+          enum: ['open', 'closed'],
+          'x-enum-varnames': ['Open'],
+          'x-enum-descriptions': ['Open', 'Closed', 'Other'],
+        },
+        Widget: {
+          type: 'object',
+          properties: {
+            a: { $ref: '#/components/schemas/Status' },
+            b: { $ref: '#/components/schemas/Status' },
+          },
+        },
+      });
+
+      // ASSERT
+      expect(service.enums[0].values.map((v) => v.meta)).toEqual([
+        undefined,
+        undefined,
+      ]);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/invalid-extension',
+          message: expect.stringContaining('but found 1'),
+          severity: 'warning',
+          sourcePath: 'openapi.json',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/invalid-extension',
+          message: expect.stringContaining('but found 3'),
+          severity: 'warning',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+  });
+
+  describe('inline definitions', () => {
+    const status = { type: 'string', enum: ['active', 'inactive'] };
+    const owner = {
+      type: 'object',
+      properties: { name: { type: 'string' }, status },
+    };
+
+    const content = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Inline', version: '1.0.0' },
+      paths: {
+        '/widgets': {
+          get: {
+            operationId: 'getWidgets',
+            parameters: [{ name: 'status', in: 'query', schema: status }],
+            responses: { '204': { description: 'ok' } },
+          },
+        },
+        '/gadgets': {
+          get: {
+            operationId: 'getGadgets',
+            parameters: [{ name: 'status', in: 'query', schema: status }],
+            responses: { '204': { description: 'ok' } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Widget: { type: 'object', properties: { owner, status } },
+          Gadget: {
+            type: 'object',
+            properties: {
+              owner,
+              other: { ...owner, description: 'Not the same' },
+            },
+          },
+        },
+      },
+    });
+
+    it('collapses identical inline enums and anonymous types', () => {
+      // ACT
+      const { service, violations } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [widget, gadget] = service.types;
+
+      expect(violations).toEqual([]);
+      expect(service.enums.map((e) => e.name.value)).toEqual(['status']);
+      expect(
+        service.interfaces[0].methods[0].parameters[0].typeName.value,
+      ).toEqual('status');
+      expect(widget.properties.map((p) => p.typeName.value)).toEqual([
+        'owner',
+        'status',
+      ]);
+      expect(gadget.properties.map((p) => p.typeName.value)).toEqual([
+        'owner',
+        'gadgetOther',
+      ]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('names shared definitions regardless of the order of their uses', () => {
+      // ARRANGE
+      const { paths, components, ...rest } = JSON.parse(content);
+      const reordered = JSON.stringify({
+        ...rest,
+        paths: {
+          '/aardvarks': {
+            get: {
+              operationId: 'getAardvarks',
+              parameters: [{ name: 'status', in: 'query', schema: status }],
+              responses: { '204': { description: 'ok' } },
+            },
+          },
+          '/gadgets': paths['/gadgets'],
+          '/widgets': paths['/widgets'],
+        },
+        components: {
+          schemas: {
+            Gadget: components.schemas.Gadget,
+            Widget: components.schemas.Widget,
+          },
+        },
+      });
+
+      // ACT
+      const { service } = parser(reordered, 'openapi.json');
+
+      // ASSERT
+      expect(service.enums.map((e) => e.name.value)).toEqual(['status']);
+      expect(service.types.map((t) => t.name.value)).toContain('owner');
+    });
+
+    it('names shared definitions without a common name after their contents', () => {
+      // ARRANGE
+      const { paths, ...rest } = JSON.parse(content);
+      const withState = (order: string[]) =>
+        JSON.stringify({
+          ...rest,
+          paths: {
+            ...paths,
+            '/sprockets': {
+              get: {
+                operationId: 'getSprockets',
+                parameters: [{ name: 'state', in: 'query', schema: status }],
+                responses: { '204': { description: 'ok' } },
+              },
+            },
+          },
+          components: {
+            schemas: order.reduce(
+              (acc, key) => ({
+                ...acc,
+                [key]: rest.components.schemas[key],
+              }),
+              {},
+            ),
+          },
+        });
+
+      // ACT
+      const a = parser(withState(['Widget', 'Gadget']), 'openapi.json');
+      const b = parser(withState(['Gadget', 'Widget']), 'openapi.json');
+
+      // ASSERT
+      const [name] = a.service.enums.map((e) => e.name.value);
+
+      expect(name).toMatch(/^enum[0-9a-f]{8}$/);
+      expect(b.service.enums.map((e) => e.name.value)).toEqual([name]);
+      expect(a.violations).toEqual([]);
+    });
+
+    it('adds a hash to a common name that is already claimed', () => {
+      // ARRANGE
+      const { components, ...rest } = JSON.parse(content);
+      const withOwner = JSON.stringify({
+        ...rest,
+        components: {
+          schemas: {
+            ...components.schemas,
+            Owner: { type: 'object', properties: { id: { type: 'string' } } },
+          },
+        },
+      });
+
+      // ACT
+      const { service, violations } = parser(withOwner, 'openapi.json');
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value)).toEqual(
+        expect.arrayContaining([
+          'Owner',
+          expect.stringMatching(/^owner[0-9a-f]{8}$/),
+        ]),
+      );
+    });
+
+    it('renames shared definitions in the meta that refers to them', () => {
+      // ARRANGE
+      const entry = {
+        type: 'object',
+        properties: { count: { type: 'integer' } },
+      };
+
+      // ACT
+      const { service } = parseDocument({
+        schemas: {
+          Inventory: { type: 'object', additionalProperties: entry },
+          Stock: { type: 'object', additionalProperties: entry },
+        },
+      });
+
+      // ASSERT
+      expect(service.types.map((t) => t.name.value)).toEqual([
+        'Inventory',
+        'Stock',
+        'value',
+      ]);
+      expect(
+        service.types.map((t) => t.meta?.[0]?.value.value.typeName),
+      ).toEqual(['value', 'value', undefined]);
+    });
+
+    it('keeps each inline definition when deduplication is turned off', () => {
+      // ACT
+      const { service } = parser(content, 'openapi.json', {
+        dedupeInlineTypes: false,
+      });
+
+      // ASSERT
+      expect(service.enums.map((e) => e.name.value).sort()).toEqual([
+        'gadgetOtherStatus',
+        'gadgetOwnerStatus',
+        'getGadgetsStatus',
+        'getWidgetsStatus',
+        'widgetOwnerStatus',
+        'widgetStatus',
+      ]);
+      expect(service.types.map((t) => t.name.value).sort()).toEqual([
+        'Gadget',
+        'Widget',
+        'gadgetOther',
+        'gadgetOwner',
+        'widgetOwner',
+      ]);
+    });
+  });
+
+  describe('anonymous names', () => {
+    const parse = (schemas: TestDocument['schemas']) =>
+      parseDocument({ schemas });
+
+    it('names anonymous types and enums after their schemas', () => {
+      // ACT
+      const { service, violations } = parse({
+        Widget: {
+          type: 'object',
+          properties: {
+            owner: {
+              type: 'object',
+              title: 'widget owner',
+              properties: { name: { type: 'string' } },
+            },
+            status: {
+              type: 'string',
+              enum: ['on', 'off'],
+              title: 'Ignored',
+              'x-basketry-name': 'PowerState',
+            },
+            size: { type: 'string', enum: ['s', 'm', 'l'] },
+          },
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.types[0].properties.map((p) => p.typeName.value)).toEqual([
+        'WidgetOwner',
+        'PowerState',
+        'widgetSize',
+      ]);
+      expect(service.types.map((t) => t.name.value)).toContain('WidgetOwner');
+      expect(service.enums.map((e) => e.name.value)).toEqual([
+        'PowerState',
+        'widgetSize',
+      ]);
+    });
+
+    it('creates a violation when different schemas claim the same name', () => {
+      // ACT
+      const { violations } = parse({
+        Widget: {
+          type: 'object',
+          properties: {
+            a: {
+              type: 'string',
+              enum: ['x', 'y'],
+              'x-basketry-name': 'Letter',
+            },
+            b: {
+              type: 'string',
+              enum: ['x', 'y'],
+              'x-basketry-name': 'Letter',
+            },
+            c: {
+              type: 'string',
+              enum: ['a', 'b'],
+              'x-basketry-name': 'Letter',
+            },
+          },
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/name-collision',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/name-collision',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+  });
+
+  describe('name collisions', () => {
+    const schemas = {
+      Pet: {
+        type: 'object',
+        properties: {
+          response: {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+          },
+          previous: { $ref: '#/components/schemas/PetResponse' },
+        },
+      },
+      PetResponse: {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+      },
+    };
+
+    const parse = (options?: ParserOptions) =>
+      parseDocument({ schemas, indent: 2 }, options);
+
+    it('creates a violation at both definitions when names collide', () => {
+      // ACT
+      const { violations } = parse();
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/name-collision',
+          message: expect.stringContaining('openapi.json line 13'),
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 26 }),
+          }),
+          severity: 'error',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/name-collision',
+          message: expect.stringContaining('openapi.json line 26'),
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 13 }),
+          }),
+          severity: 'error',
+        }),
+      ]);
+    });
+
+    it('renames inline definitions that collide', () => {
+      // ACT
+      const { service, violations } = parse({ renameCollisions: true });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value).sort()).toEqual([
+        'Pet',
+        'PetResponse',
+        'petResponse2',
+      ]);
+      const pet = service.types.find((t) => t.name.value === 'Pet')!;
+      expect(pet.properties.map((p) => p.typeName.value)).toEqual([
+        'petResponse2',
+        'PetResponse',
+      ]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('does not rename definitions that are reused', () => {
+      // ACT
+      const { service, violations } = parseDocument(
+        {
+          schemas: {
+            Widget: {
+              type: 'object',
+              properties: {
+                status: { type: 'string', enum: ['on', 'off'] },
+                statuses: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['on', 'off'] },
+                },
+              },
+            },
+          },
+        },
+        { renameCollisions: true, dedupeInlineTypes: false },
+      );
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.enums.map((e) => e.name.value)).toEqual(['widgetStatus']);
+    });
+  });
+
+  describe('unions', () => {
+    const parse = (schemas: TestDocument['schemas']) =>
+      parseDocument({ schemas });
+
+    const pet = {
+      type: 'object',
+      required: ['kind'],
+      properties: { kind: { type: 'string' } },
+    };
+
+    it('parses primitive, enum, and array members', () => {
+      // ACT
+      const { service, violations } = parse({
+        Pet: pet,
+        Id: {
+          oneOf: [
+            { type: 'string', format: 'uuid' },
+            { type: 'integer' },
+            { type: 'string', enum: ['none', 'unknown'] },
+          ],
+        },
+        Pets: {
+          oneOf: [
+            { $ref: '#/components/schemas/Pet' },
+            { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+          ],
+        },
+      });
+
+      // ASSERT
+      const [id, pets] = ['Id', 'Pets'].map((name) =>
+        service.unions.find((u) => u.name.value === name),
+      );
+
+      expect(violations).toEqual([]);
+      expect(id?.members).toEqual([
+        expect.objectContaining({
+          typeName: expect.objectContaining({ value: 'string' }),
+          isPrimitive: true,
+          isArray: false,
+        }),
+        expect.objectContaining({
+          typeName: expect.objectContaining({ value: 'integer' }),
+          isPrimitive: true,
+          isArray: false,
+        }),
+        expect.objectContaining({
+          typeName: { value: 'id3' },
+          isPrimitive: false,
+          isArray: false,
+        }),
+      ]);
+      expect(service.enums.map((e) => e.name.value)).toEqual(['id3']);
+      expect(pets?.members).toEqual([
+        expect.objectContaining({
+          typeName: expect.objectContaining({ value: 'Pet' }),
+          isArray: false,
+        }),
+        expect.objectContaining({
+          typeName: expect.objectContaining({ value: 'Pet' }),
+          isArray: true,
+        }),
+      ]);
+    });
+
+    describe('in request bodies', () => {
+      const content = JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'Unions', version: '1.0.0' },
+        paths: {
+          '/pets': {
+            post: {
+              operationId: 'createPet',
+              tags: ['pets', 'admin'],
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      oneOf: [
+                        { $ref: '#/components/schemas/Cat' },
+                        { type: 'string' },
+                      ],
+                      discriminator: {
+                        propertyName: 'kind',
+                        mapping: {
+                          cat: '#/components/schemas/Cat',
+                          dog: '#/components/schemas/Dog',
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              responses: { '204': { description: 'OK' } },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            Cat: {
+              type: 'object',
+              required: ['kind'],
+              properties: { kind: { type: 'string' } },
+            },
+            Dog: {
+              type: 'object',
+              required: ['kind'],
+              properties: { kind: { type: 'string' } },
+            },
+          },
+        },
+      });
+
+      it('creates each discriminator violation once', () => {
+        // ACT
+        const { violations } = parser(content, 'openapi.json');
+
+        // ASSERT
+        expect(violations).toHaveLength(2);
+        expect(violations.map((v) => v.code)).toEqual([
+          'openapi-3/misconfigured-discriminator',
+          'openapi-3/misconfigured-discriminator',
+        ]);
+      });
+
+      it('validates the members of each union once', () => {
+        // ACT
+        const { violations } = parseDocument({
+          paths: {
+            '/pets': {
+              post: {
+                operationId: 'createPet',
+                requestBody: {
+                  content: {
+                    'application/json': {
+                      schema: {
+                        oneOf: [
+                          { $ref: '#/components/schemas/Cat' },
+                          { $ref: '#/components/schemas/Dog' },
+                        ],
+                        discriminator: { propertyName: 'kind' },
+                      },
+                    },
+                  },
+                },
+                responses: { '204': { description: 'OK' } },
+              },
+            },
+          },
+          schemas: {
+            Cat: {
+              type: 'object',
+              properties: { name: { type: 'string' } },
+            },
+            Dog: {
+              type: 'object',
+              required: ['kind'],
+              properties: { kind: { type: 'integer' } },
+            },
+          },
+        });
+
+        // ASSERT
+        expect(violations).toHaveLength(2);
+        expect(violations.map((v) => v.message)).toEqual([
+          "The member does not define the discriminator property 'kind'.",
+          "The discriminator property 'kind' must be a string.",
+        ]);
+      });
+
+      it('creates each discriminator violation once per document', () => {
+        // ACT
+        const { violations } = parser(content, 'openapi.json', {
+          interfaceGrouping: 'tags',
+        });
+
+        // ASSERT
+        expect(violations).toHaveLength(2);
+      });
+    });
+
+    it('creates a valid service', () => {
+      // ACT
+      const { service } = parse({
+        Id: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+      });
+
+      // ASSERT
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('creates violations for non-object members of a discriminated union', () => {
+      // ACT
+      const { service, violations } = parse({
+        Pet: pet,
+        Pets: {
+          discriminator: { propertyName: 'kind' },
+          oneOf: [
+            { $ref: '#/components/schemas/Pet' },
+            { type: 'string' },
+            { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+          ],
+        },
+      });
+
+      // ASSERT
+      expect(service.unions[0].members).toEqual([
+        expect.objectContaining({
+          typeName: expect.objectContaining({ value: 'Pet' }),
+        }),
+      ]);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/misconfigured-discriminator',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/misconfigured-discriminator',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+
+    it('carries the discriminator mapping in the union meta', () => {
+      // ACT
+      const { service, violations } = parse({
+        Cat: pet,
+        Dog: pet,
+        Pet: {
+          discriminator: {
+            propertyName: 'kind',
+            mapping: { cat: 'Cat', dog: '#/components/schemas/Dog' },
+          },
+          oneOf: [
+            { $ref: '#/components/schemas/Cat' },
+            { $ref: '#/components/schemas/Dog' },
+          ],
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.unions[0].meta).toEqual([
+        {
+          key: { value: 'discriminatorMapping' },
+          value: {
+            value: { cat: 'Cat', dog: 'Dog' },
+            loc: expect.any(String),
+          },
+        },
+      ]);
+    });
+
+    it('creates violations for mappings to non-members and unresolvable refs', () => {
+      // ACT
+      const { service, violations } = parse({
+        Cat: pet,
+        Dog: pet,
+        Pet: {
+          discriminator: {
+            propertyName: 'kind',
+            mapping: {
+              cat: '#/components/schemas/Cat',
+              dog: '#/components/schemas/Dog',
+              fish: '#/components/schemas/Fish',
+            },
+          },
+          oneOf: [{ $ref: '#/components/schemas/Cat' }],
+        },
+      });
+
+      // ASSERT
+      expect(service.unions[0].meta?.[0].value.value).toEqual({ cat: 'Cat' });
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/misconfigured-discriminator',
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/unresolvable-ref',
+          message: expect.stringContaining('#/components/schemas/Fish'),
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+
+    it('creates violations for members with an incompatible discriminator property', () => {
+      // ACT
+      const { violations } = parse({
+        Cat: { type: 'object', properties: { name: { type: 'string' } } },
+        Dog: { type: 'object', properties: { kind: { type: 'string' } } },
+        Fish: {
+          type: 'object',
+          required: ['kind'],
+          properties: { kind: { type: 'integer' } },
+        },
+        Pet: {
+          discriminator: { propertyName: 'kind' },
+          oneOf: [
+            { $ref: '#/components/schemas/Cat' },
+            { $ref: '#/components/schemas/Dog' },
+            { $ref: '#/components/schemas/Fish' },
+          ],
+        },
+      });
+
+      // ASSERT
+      expect(violations.map((v) => v.message)).toEqual([
+        "The member does not define the discriminator property 'kind'.",
+        "The discriminator property 'kind' must be required.",
+        "The discriminator property 'kind' must be a string.",
+      ]);
+      expect(violations.map((v) => v.range.start.line)).toEqual([1, 1, 1]);
+    });
+
+    it('finds the discriminator property via allOf', () => {
+      // ACT
+      const { violations } = parse({
+        Pet: pet,
+        Cat: {
+          allOf: [
+            { $ref: '#/components/schemas/Pet' },
+            { type: 'object', properties: { lives: { type: 'integer' } } },
+          ],
+        },
+        Pets: {
+          discriminator: { propertyName: 'kind' },
+          oneOf: [{ $ref: '#/components/schemas/Cat' }],
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+    });
+
+    it('creates violations where mapping keys and enum values disagree', () => {
+      // ACT
+      const { violations } = parse({
+        Cat: {
+          type: 'object',
+          required: ['kind'],
+          properties: { kind: { type: 'string', enum: ['cat', 'kitten'] } },
+        },
+        Dog: {
+          type: 'object',
+          required: ['kind'],
+          properties: { kind: { type: 'string', enum: ['dog'] } },
+        },
+        Pet: {
+          discriminator: {
+            propertyName: 'kind',
+            mapping: {
+              cat: '#/components/schemas/Cat',
+              puppy: '#/components/schemas/Dog',
+            },
+          },
+          oneOf: [
+            { $ref: '#/components/schemas/Cat' },
+            { $ref: '#/components/schemas/Dog' },
+          ],
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          message:
+            "The discriminator value 'kitten' does not map to this member.",
+          severity: 'warning',
+        }),
+        expect.objectContaining({
+          message:
+            "The discriminator value 'puppy' is not an allowed value of 'kind'.",
+          severity: 'error',
+        }),
+        expect.objectContaining({
+          message: "The discriminator value 'dog' does not map to this member.",
+          severity: 'warning',
+        }),
+      ]);
+    });
+
+    it('identifies unmapped members by their schema name', () => {
+      // ACT
+      const { violations } = parse({
+        Cat: {
+          type: 'object',
+          required: ['kind'],
+          properties: { kind: { type: 'string', enum: ['Cat'] } },
+        },
+        Pet: {
+          discriminator: { propertyName: 'kind' },
+          oneOf: [{ $ref: '#/components/schemas/Cat' }],
+        },
+      });
+
+      // ASSERT
+      expect(violations).toEqual([]);
+    });
+  });
+
+  describe('anyOf', () => {
+    const parse = (schemas: TestDocument['schemas'], options?: ParserOptions) =>
+      parseDocument({ schemas }, options);
+
+    const pets = {
+      Cat: {
+        type: 'object',
+        required: ['name', 'lives'],
+        properties: { name: { type: 'string' }, lives: { type: 'integer' } },
+      },
+      Dog: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, breed: { type: 'string' } },
+      },
+      Pet: {
+        type: 'object',
+        anyOf: [
+          { $ref: '#/components/schemas/Cat' },
+          { $ref: '#/components/schemas/Dog' },
+        ],
+      },
+    };
+
+    it('parses anyOf as a union of non-exclusive members', () => {
+      // ACT
+      const { service, violations } = parse(pets);
+
+      // ASSERT
+      const union = service.unions.find((u) => u.name.value === 'Pet');
+
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value)).not.toContain('Pet');
+      expect(union?.members.map((m) => m.typeName.value)).toEqual([
+        'Cat',
+        'Dog',
+      ]);
+      expect(union?.meta).toEqual([
+        { key: { value: 'exclusive' }, value: { value: false } },
+      ]);
+    });
+
+    it('does not mark oneOf unions as non-exclusive', () => {
+      // ACT
+      const { service } = parse({
+        ...pets,
+        Pet: { type: 'object', oneOf: pets.Pet.anyOf },
+      });
+
+      // ASSERT
+      expect(service.unions.find((u) => u.name.value === 'Pet')?.meta).toEqual(
+        undefined,
+      );
+    });
+
+    it('merges anyOf members into a type with optional properties', () => {
+      // ACT
+      const { service, violations } = parse(pets, { anyOf: 'merge' });
+
+      // ASSERT
+      const pet = service.types.find((t) => t.name.value === 'Pet');
+
+      expect(violations).toEqual([]);
+      expect(service.unions).toEqual([]);
+      expect(pet?.properties.map((p) => p.name.value)).toEqual([
+        'name',
+        'lives',
+        'breed',
+      ]);
+      expect(pet?.properties.map((p) => p.rules)).toEqual([[], [], []]);
+    });
+
+    it('configures the mode per schema', () => {
+      // ACT
+      const { service } = parse(
+        {
+          ...pets,
+          Pet: { ...pets.Pet, 'x-basketry-any-of': 'merge' },
+          InlinePet: {
+            type: 'object',
+            properties: {
+              pet: { ...pets.Pet, 'x-basketry-any-of': 'union' },
+            },
+          },
+        },
+        { anyOf: 'merge' },
+      );
+
+      // ASSERT
+      expect(service.types.map((t) => t.name.value)).toContain('Pet');
+      expect(service.unions.map((u) => u.name.value)).toEqual(['inlinePetPet']);
+    });
+
+    it('creates a violation for an invalid mode', () => {
+      // ACT
+      const { service, violations } = parse({
+        ...pets,
+        Pet: { ...pets.Pet, 'x-basketry-any-of': 'intersect' },
+      });
+
+      // ASSERT
+      expect(service.unions.map((u) => u.name.value)).toEqual(['Pet']);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/invalid-extension',
+          severity: 'warning',
+          sourcePath: 'openapi.json',
+        }),
+      ]);
+    });
+
+    it('creates each violation once for request bodies', () => {
+      // ACT
+      const { violations } = parseDocument(
+        {
+          paths: {
+            '/pets': {
+              post: {
+                operationId: 'createPet',
+                requestBody: {
+                  content: {
+                    'application/json': {
+                      schema: {
+                        type: 'object',
+                        'x-basketry-any-of': 'intersect',
+                        anyOf: [
+                          { $ref: '#/components/schemas/Cat' },
+                          { type: 'string' },
+                        ],
+                      },
+                    },
+                  },
+                },
+                responses: { '204': { description: 'OK' } },
+              },
+            },
+          },
+          schemas: { Cat: pets.Cat },
+        },
+        { anyOf: 'merge' },
+      );
+
+      // ASSERT
+      expect(violations).toHaveLength(2);
+      expect(violations).toEqual([
+        expect.objectContaining({ code: 'openapi-3/invalid-extension' }),
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          message:
+            'Only object schemas can be merged. This subschema will be ignored.',
+        }),
+      ]);
+    });
+  });
+
+  describe('operations without an operationId', () => {
+    const content = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Names', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: { responses: { '204': { description: 'OK' } } },
+          post: {
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { name: { type: 'string' } },
+                  },
+                },
+              },
+            },
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+        '/pets/{petId}': {
+          get: { responses: { '204': { description: 'OK' } } },
+        },
+        '/pets/{petId}/toys/{toyId}': {
+          delete: { responses: { '204': { description: 'OK' } } },
+        },
+        '/pets/all': {
+          get: {
+            operationId: 'getPets',
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+      },
+    });
+
+    it('derives method names from the verb and path', () => {
+      // ACT
+      const { service, violations } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [int] = service.interfaces;
+
+      expect(violations).toEqual([]);
+      expect(int.methods.map((m) => m.name.value)).toEqual([
+        'getPets2',
+        'postPets',
+        'getPetById',
+        'deletePetToyById',
+        'getPets',
+      ]);
+      expect(int.methods[2].meta).toEqual([
+        {
+          key: { value: 'derivedName' },
+          value: { value: { verb: 'get', path: '/pets/{petId}' } },
+        },
+      ]);
+      expect(int.methods[4].meta).toBeUndefined();
+      expect(service.types.map((t) => t.name.value)).toEqual(['postPetsBody']);
+    });
+
+    it('uses the same names for methods and HTTP methods', () => {
+      // ACT
+      const { service } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [int] = service.interfaces;
+      const httpMethodNames = int.protocols.http
+        .map((path) => path.methods.map((m) => m.name.value))
+        .reduce((acc, names) => [...acc, ...names], []);
+
+      expect(httpMethodNames).toEqual(int.methods.map((m) => m.name.value));
+      expect(validate(service).errors).toEqual([]);
+    });
+  });
+
+  describe('duplicate operationIds', () => {
+    const content = JSON.stringify(
+      {
+        openapi: '3.0.3',
+        info: { title: 'Duplicates', version: '1.0.0' },
+        paths: {
+          '/pets': {
+            get: {
+              operationId: 'getPets',
+              responses: { '204': { description: 'OK' } },
+            },
+          },
+          '/animals': {
+            get: {
+              operationId: 'getPets',
+              responses: { '204': { description: 'OK' } },
+            },
+            post: {
+              operationId: 'create_pet',
+              responses: { '204': { description: 'OK' } },
+            },
+          },
+          '/dogs': {
+            post: {
+              operationId: 'CreatePet',
+              responses: { '204': { description: 'OK' } },
+            },
+          },
+        },
+      },
+      null,
+      2,
+    );
+
+    it('creates a violation for every duplicate operationId', () => {
+      // ACT
+      const { violations } = parser(content, 'openapi.json');
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/duplicate-operation-id',
+          message: expect.stringContaining("also used by 'getPets' (line 20)"),
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 10 }),
+          }),
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/duplicate-operation-id',
+          message: expect.stringContaining("also used by 'getPets' (line 10)"),
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 20 }),
+          }),
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/duplicate-operation-id',
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 28 }),
+          }),
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/duplicate-operation-id',
+          message: expect.stringContaining(
+            "generates the same method name as 'create_pet' (line 28)",
+          ),
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 38 }),
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe('interface grouping', () => {
+    const content = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Grouping', version: '1.0.0' },
+      paths: {
+        '/v1/pets': {
+          get: {
+            operationId: 'listPets',
+            tags: ['pets', 'admin'],
+            'x-interface': 'Analytics',
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+        '/v1/pets/{petId}/toys': {
+          get: {
+            operationId: 'listToys',
+            tags: ['toys'],
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+        '/v1/owners': {
+          get: {
+            operationId: 'listOwners',
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+      },
+    });
+
+    function parse(options?: ParserOptions) {
+      const { service, violations } = parser(content, 'openapi.json', options);
+
+      expect(violations).toEqual([]);
+      expect(validate(service).errors).toEqual([]);
+
+      return service.interfaces.map((int) => {
+        const methodNames = int.methods.map((m) => m.name.value);
+        const httpMethodNames = int.protocols.http
+          .map((path) => path.methods.map((m) => m.name.value))
+          .reduce((acc, names) => [...acc, ...names], []);
+
+        expect(httpMethodNames).toEqual(methodNames);
+
+        return [int.name.value, methodNames];
+      });
+    }
+
+    it('groups operations by their first tag by default', () => {
+      // ACT
+      const interfaces = parse();
+
+      // ASSERT
+      expect(interfaces).toEqual([
+        ['pet', ['listPets']],
+        ['toy', ['listToys']],
+        ['v1', ['listOwners']],
+      ]);
+    });
+
+    it('groups operations by every tag', () => {
+      // ACT
+      const interfaces = parse({ interfaceGrouping: 'tags' });
+
+      // ASSERT
+      expect(interfaces).toEqual([
+        ['pet', ['listPets']],
+        ['admin', ['listPets']],
+        ['toy', ['listToys']],
+        ['v1', ['listOwners']],
+      ]);
+    });
+
+    it('groups operations by the x-interface extension', () => {
+      // ACT
+      const interfaces = parse({ interfaceGrouping: 'extension' });
+
+      // ASSERT
+      expect(interfaces).toEqual([
+        ['Analytics', ['listPets']],
+        ['toy', ['listToys']],
+        ['v1', ['listOwners']],
+      ]);
+    });
+
+    it('groups operations by path segments', () => {
+      // ACT
+      const interfaces = parse({
+        interfaceGrouping: 'path',
+        interfacePathSegments: 2,
+      });
+
+      // ASSERT
+      expect(interfaces).toEqual([
+        ['pet', ['listPets']],
+        ['petsToy', ['listToys']],
+        ['owner', ['listOwners']],
+      ]);
+    });
+
+    it('throws for an invalid number of path segments', () => {
+      for (const interfacePathSegments of [0, -1, 1.5]) {
+        // ACT
+        const act = () =>
+          parser(content, 'openapi.json', {
+            interfaceGrouping: 'path',
+            interfacePathSegments,
+          });
+
+        // ASSERT
+        expect(act).toThrow(
+          `Expected interfacePathSegments to be a positive integer but found ${interfacePathSegments}`,
+        );
+      }
+    });
+  });
+
+  describe('cookie parameters', () => {
+    const content = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Cookies', version: '1.0.0' },
+      paths: {
+        '/session': {
+          get: {
+            operationId: 'getSession',
+            parameters: [
+              { name: 'sessionId', in: 'cookie', schema: { type: 'string' } },
+              {
+                name: 'prefs',
+                in: 'cookie',
+                explode: false,
+                schema: { type: 'array', items: { type: 'string' } },
+              },
+              { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+            ],
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+      },
+    });
+
+    it('describes how cookie parameters are serialized', () => {
+      // ACT
+      const { service } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [method] = service.interfaces[0].methods;
+
+      expect(method.parameters.map((p) => p.name.value)).toEqual([
+        'sessionId',
+        'prefs',
+        'verbose',
+      ]);
+      expect(method.parameters.map((p) => p.meta?.[0].value.value)).toEqual([
+        { in: 'cookie', style: 'form', explode: true },
+        { in: 'cookie', style: 'form', explode: false },
+        undefined,
+      ]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('omits cookie parameters from the HTTP protocol', () => {
+      // ACT
+      const { service, violations } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [httpMethod] = service.interfaces[0].protocols.http[0].methods;
+
+      expect(httpMethod.parameters.map((p) => p.name.value)).toEqual([
+        'verbose',
+      ]);
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          severity: 'info',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/unsupported-feature',
+          severity: 'info',
+        }),
+      ]);
+    });
+
+    it('creates each violation once per cookie parameter', () => {
+      // ACT
+      const { violations } = parseDocument(
+        {
+          paths: {
+            '/session': {
+              parameters: [
+                { name: 'sessionId', in: 'cookie', schema: { type: 'string' } },
+              ],
+              get: {
+                operationId: 'getSession',
+                tags: ['session', 'auth'],
+                responses: { '204': { description: 'OK' } },
+              },
+              delete: {
+                operationId: 'deleteSession',
+                tags: ['session'],
+                responses: { '204': { description: 'OK' } },
+              },
+            },
+          },
+        },
+        { interfaceGrouping: 'tags' },
+      );
+
+      // ASSERT
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toEqual(
+        "Cookie parameters are not included in the HTTP protocol. See the method parameter's 'httpParameter' meta instead.",
+      );
+    });
+  });
+
+  describe('parameter styles', () => {
+    const parse = (path: string, parameters: Record<string, unknown>[]) =>
+      parseDocument({
+        paths: {
+          [path]: {
+            get: {
+              operationId: 'getMap',
+              parameters,
+              responses: { '204': { description: 'OK' } },
+            },
+          },
+        },
+      });
+
+    it('describes matrix and label parameters', () => {
+      // ACT
+      const { service, violations } = parse('/map/{coords}/{zoom}/{tags}', [
+        {
+          name: 'coords',
+          in: 'path',
+          required: true,
+          style: 'matrix',
+          explode: true,
+          schema: { type: 'array', items: { type: 'number' } },
+        },
+        {
+          name: 'zoom',
+          in: 'path',
+          required: true,
+          style: 'label',
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'tags',
+          in: 'path',
+          required: true,
+          schema: { type: 'array', items: { type: 'string' } },
+        },
+      ]);
+
+      // ASSERT
+      const [method] = service.interfaces[0].methods;
+      const [httpMethod] = service.interfaces[0].protocols.http[0].methods;
+
+      expect(violations).toEqual([]);
+      expect(method.parameters.map((p) => p.meta?.[0].value.value)).toEqual([
+        { in: 'path', style: 'matrix', explode: true },
+        { in: 'path', style: 'label', explode: false },
+        undefined,
+      ]);
+      expect(httpMethod.parameters.map((p) => p.array?.value)).toEqual([
+        'csv',
+        undefined,
+        'csv',
+      ]);
+      expect(validate(service).errors).toEqual([]);
+    });
+
+    it('reads the style from RFC 6570 path expressions', () => {
+      // ACT
+      const { service } = parse('/map/{;coords*}{.format}', [
+        {
+          name: 'coords',
+          in: 'path',
+          required: true,
+          schema: { type: 'object', additionalProperties: true },
+        },
+        {
+          name: 'format',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ]);
+
+      // ASSERT
+      const [method] = service.interfaces[0].methods;
+
+      expect(method.parameters.map((p) => p.meta?.[0].value.value)).toEqual([
+        { in: 'path', style: 'matrix', explode: true },
+        { in: 'path', style: 'label', explode: false },
+      ]);
+    });
+
+    it('creates a violation for styles that the location does not allow', () => {
+      // ACT
+      const { violations } = parse('/map', [
+        {
+          name: 'coords',
+          in: 'query',
+          style: 'matrix',
+          schema: { type: 'array', items: { type: 'number' } },
+        },
+        {
+          name: 'X-Zoom',
+          in: 'header',
+          style: 'form',
+          schema: { type: 'integer' },
+        },
+      ]);
+
+      // ASSERT
+      expect(violations).toEqual([
+        expect.objectContaining({
+          code: 'openapi-3/invalid-parameter-style',
+          message: expect.stringContaining(
+            "Parameter style 'matrix' is not allowed in query parameters.",
+          ),
+          severity: 'error',
+          sourcePath: 'openapi.json',
+        }),
+        expect.objectContaining({
+          code: 'openapi-3/invalid-parameter-style',
+          message: expect.stringContaining(
+            "Parameter style 'form' is not allowed in header parameters.",
+          ),
+          severity: 'error',
+        }),
+      ]);
+    });
+  });
+
+  describe('webhooks', () => {
+    const content = JSON.stringify({
+      openapi: '3.1.0',
+      info: { title: 'Webhooks', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            operationId: 'getPets',
+            responses: { '204': { description: 'OK' } },
+          },
+        },
+      },
+      webhooks: {
+        newPet: {
+          post: {
+            operationId: 'onNewPet',
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { name: { type: 'string' } },
+                  },
+                },
+              },
+            },
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    });
+
+    it('parses webhooks into their own interfaces', () => {
+      // ACT
+      const { service, violations } = parser(content, 'openapi.json');
+
+      // ASSERT
+      const [pets, webhooks] = service.interfaces;
+      const [method] = webhooks.methods;
+
+      expect(violations).toEqual([]);
+      expect(service.interfaces.map((i) => i.name.value)).toEqual([
+        'pet',
+        'newPetWebhook',
+      ]);
+      expect(pets.meta).toBeUndefined();
+      expect(webhooks.meta).toEqual([
+        { key: { value: 'webhook' }, value: { value: true } },
+      ]);
+      expect(method.name.value).toEqual('onNewPet');
+      expect(method.meta).toEqual(webhooks.meta);
+      expect(method.parameters.map((p) => p.typeName.value)).toEqual([
+        'onNewPetBody',
+      ]);
+      expect(service.types.map((t) => t.name.value)).toEqual(['onNewPetBody']);
+      expect(webhooks.protocols.http[0].methods[0].verb.value).toEqual('post');
+    });
+
+    it('creates a valid service', () => {
+      // ARRANGE
+      const service = parser(content, 'openapi.json').service;
+
+      // ACT
+      const errors = validate(service).errors;
+
+      // ASSERT
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('Swagger 2.0', () => {
+    const sourcePath = join('src', 'snapshot', 'swagger-2', 'petstore.yaml');
+    const sourceContent = readFileSync(sourcePath).toString();
+
+    it('upgrades the document before parsing', () => {
+      // ACT
+      const { service } = parser(sourceContent, sourcePath);
+
+      // ASSERT
+      const [pets] = service.interfaces;
+      const [findPets, addPet, uploadPhoto] = pets.methods;
+      const [findPetsHttp, addPetHttp] = pets.protocols.http[0].methods;
+
+      expect(pets.methods.map((m) => m.name.value)).toEqual([
+        'findPets',
+        'addPet',
+        'uploadPhoto',
+      ]);
+
+      expect(findPets.parameters.map((p) => p.name.value)).toEqual([
+        'tags',
+        'limit',
+      ]);
+      expect(findPetsHttp.parameters[0].array?.value).toEqual('multi');
+      expect(findPets.returnType?.typeName.value).toEqual('Pet');
+      expect(findPets.returnType?.isArray).toEqual(true);
+
+      expect(addPet.parameters.map((p) => p.name.value)).toEqual(['pet']);
+      expect(addPet.parameters[0].typeName.value).toEqual('NewPet');
+      expect(addPetHttp.requestMediaTypes.map((m) => m.value)).toEqual([
+        'application/json',
+      ]);
+      expect(addPet.returnType?.typeName.value).toEqual('Pet');
+      expect(addPet.security[0].map((s) => s.kind)).toEqual(['OAuth2Scheme']);
+
+      expect(uploadPhoto.parameters.map((p) => p.name.value)).toEqual([
+        'body',
+        'id',
+        'sizes',
+      ]);
+      expect(
+        service.types
+          .find(
+            (t) => t.name.value === uploadPhoto.parameters[0].typeName.value,
+          )
+          ?.properties.map((p) => [p.name.value, p.typeName.value]),
+      ).toEqual([
+        ['photo', 'binary'],
+        ['caption', 'string'],
+      ]);
+
+      expect(service.types.map((t) => t.name.value)).toEqual(
+        expect.arrayContaining(['NewPet', 'Pet']),
+      );
+    });
+
+    it('creates a valid service', () => {
+      // ARRANGE
+      const service = parser(sourceContent, sourcePath).service;
+
+      // ACT
+      const errors = validate(service).errors;
+
+      // ASSERT
+      expect(errors).toEqual([]);
+    });
+
+    it('creates violations at the original locations', () => {
+      // ACT
+      const { violations } = parser(sourceContent, sourcePath);
+
+      // ASSERT
+      expect(violations).toEqual([
+        {
+          code: 'openapi-3/swagger-2-conversion',
+          message:
+            "Collection format 'tsv' cannot be converted for header parameters. The 'csv' format will be used instead.",
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 75 }),
+          }),
+          severity: 'warning',
+          sourcePath,
+        },
+      ]);
+    });
+
+    it('keeps external refs to documents that are not upgraded', () => {
+      // ARRANGE
+      const loader = inMemoryLoader({
+        'specs/defs.json': JSON.stringify({
+          definitions: {
+            Pet: { type: 'object', properties: { id: { type: 'string' } } },
+          },
+        }),
+        'specs/legacy.json': JSON.stringify({
+          swagger: '2.0',
+          info: { title: 'Legacy', version: '1.0.0' },
+          paths: {},
+          definitions: {
+            Owner: { type: 'object', properties: { name: { type: 'string' } } },
+          },
+        }),
+      });
+
+      const content = JSON.stringify({
+        swagger: '2.0',
+        info: { title: 'External', version: '1.0.0' },
+        paths: {
+          '/pets': {
+            get: {
+              operationId: 'getPets',
+              produces: ['application/json'],
+              responses: {
+                '200': {
+                  description: 'OK',
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      pet: { $ref: 'defs.json#/definitions/Pet' },
+                      owner: { $ref: 'legacy.json#/definitions/Owner' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      // ACT
+      const { service, violations } = parser(
+        content,
+        join('specs', 'swagger.json'),
+        { loader },
+      );
+
+      // ASSERT
+      expect(violations).toEqual([]);
+      expect(service.types.map((t) => t.name.value)).toEqual(
+        expect.arrayContaining(['Pet', 'Owner']),
+      );
+    });
+
+    it('bundles the upgraded document', () => {
+      // ACT
+      const { document } = bundle(sourceContent, sourcePath);
+
+      // ASSERT
+      const result = JSON.parse(document);
+
+      expect(result.openapi).toEqual('3.0.3');
+      expect(result.servers).toEqual([
+        { url: 'https://petstore.example.com/v1' },
+      ]);
+      expect(Object.keys(result.components.schemas)).toEqual(['NewPet', 'Pet']);
+      expect(result.components.schemas.NewPet.properties.tag).toEqual({
+        type: 'string',
+        nullable: true,
+      });
+      expect(result.components.securitySchemes.basic_auth).toEqual({
+        type: 'http',
+        scheme: 'basic',
+      });
+      expect(result.paths['/pets'].post.requestBody).toEqual({
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/NewPet' },
+          },
+        },
+      });
+    });
+  });
+
   it('creates a valid service from the example Pet Store schema', async () => {
     // ARRANGE
 
@@ -1,9 +1,13 @@
-import { major } from 'semver';
+import { createHash } from 'crypto';
+import { coerce, major } from 'semver';
 import { singular } from 'pluralize';
 import { camel, kebab, pascal } from 'case';
 
-import { AST, DocumentNode, parse } from '@basketry/ast';
+import { AST, DocumentNode } from '@basketry/ast';
 import * as OAS3 from './types';
+import { DocumentSet } from './documents';
+import { synthesize } from './nodes';
+import { ReferenceLoader } from './loaders';
 
 import {
   CustomValue,
@@ -16,6 +20,7 @@ import {
   HttpPath,
   Interface,
   Meta,
+  MetaValue,
   Method,
   OAuth2Flow,
   OAuth2Scope,
@@ -40,26 +45,218 @@ function range(node: AST.ASTNode | DocumentNode): string {
   return encodeRange(node.loc);
 }
 
+/** The parameter styles that each location allows */
+const parameterStyles: Record<string, string[]> = {
+  path: ['matrix', 'label', 'simple'],
+  query: ['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'],
+  header: ['simple'],
+  cookie: ['form'],
+};
+
+/**
+ * Returns the style and explode modifier implied by the RFC 6570 expression of
+ * a path parameter (eg. `{;coords*}` is an exploded `matrix`).
+ */
+function parsePathExpression(
+  path: string,
+  name: string,
+): { style: string | undefined; explode: boolean } | undefined {
+  for (const expression of path.match(/\{[^}]*\}/g) || []) {
+    const [, operator, paramName, explode] =
+      /^\{([;.]?)(.*?)(\*?)\}$/.exec(expression) || [];
+    if (paramName !== name) continue;
+
+    return {
+      style:
+        operator === ';' ? 'matrix' : operator === '.' ? 'label' : undefined,
+      explode: !!explode,
+    };
+  }
+  return undefined;
+}
+
+function parseInterfacePathSegments(value: number | undefined): number {
+  if (value === undefined) return 1;
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(
+      `Expected interfacePathSegments to be a positive integer but found ${value}`,
+    );
+  }
+  return value;
+}
+
+/** Returns a key that is equal for definitions that differ only by name */
+function structuralKey(definition: Enum | Type | Union): string {
+  return JSON.stringify({ ...definition, name: undefined }, (key, value) =>
+    key === 'loc' ? undefined : value,
+  );
+}
+
+export type ParserOptions = {
+  /**
+   * Loads the documents referenced by external `$ref`s. Defaults to reading
+   * from the local file system.
+   */
+  loader?: ReferenceLoader;
+
+  /**
+   * How schemas with `anyOf` are parsed: as a `union` of non-exclusive members
+   * or as a single type that `merge`s the properties of every member, none of
+   * which are required. Defaults to `union`. Individual schemas may override
+   * this with the `x-basketry-any-of` extension.
+   */
+  anyOf?: AnyOfMode;
+
+  /**
+   * Splits component schemas with `readOnly` or `writeOnly` properties into
+   * request and response variants (eg. `PetInput` and `PetOutput`). Inputs omit
+   * `readOnly` properties and outputs omit `writeOnly` properties. Method
+   * parameters and return types refer to the appropriate variant. Defaults to
+   * `false`.
+   */
+  splitReadWriteTypes?: boolean;
+
+  /**
+   * Collapses structurally identical inline enums and anonymous types into a
+   * single definition named after the property or parameter name common to
+   * all of them (eg. `status`), or else after a hash of its contents. Defaults
+   * to `true`.
+   */
+  dedupeInlineTypes?: boolean;
+
+  /**
+   * Renames inline enums and anonymous types whose names collide with another
+   * definition by appending a number (eg. `PetResponse2`). Component schemas
+   * always keep their names. Defaults to `false`, in which case collisions are
+   * only reported.
+   */
+  renameCollisions?: boolean;
+
+  /**
+   * How operations are grouped into interfaces:
+   * - `tag`: by the operation's first tag, or else by the first path segment.
+   * - `tags`: by every tag of the operation, which is included in each of the
+   *   interfaces.
+   * - `extension`: by the operation's `x-interface` extension (as written),
+   *   or else as per `tag`.
+   * - `path`: by the first `interfacePathSegments` path segments, skipping
+   *   versions (eg. `/v1`) and path parameters.
+   *
+   * Defaults to `tag`.
+   */
+  interfaceGrouping?: InterfaceGrouping;
+
+  /**
+   * The number of path segments that name an interface when grouping by
+   * `path`. Must be a positive integer. Defaults to `1`.
+   */
+  interfacePathSegments?: number;
+};
+
+export type AnyOfMode = 'union' | 'merge';
+
+export type InterfaceGrouping = 'tag' | 'tags' | 'extension' | 'path';
+
+/** Whether a schema is being parsed as part of a request or a response */
+type Usage = 'input' | 'output';
+
+/** A discriminator value and the index of the union member it maps to */
+type DiscriminatorValue = {
+  key: string;
+  index: number;
+  node: OAS3.LiteralNode<string>;
+};
+
 export class OAS3Parser {
-  constructor(schema: string, private readonly sourcePath: string) {
-    this.schema = new OAS3.OpenAPINode(parse(schema));
+  constructor(
+    schema: string,
+    private readonly sourcePath: string,
+    options: ParserOptions = {},
+  ) {
+    this.documents = new DocumentSet(schema, sourcePath, options.loader);
+    this.schema = new OAS3.OpenAPINode(this.documents.root);
+    this.dialect = parseDialect(this.schema.openapi?.value);
+    this.anyOfMode = options.anyOf || 'union';
+    this.splitReadWriteTypes = !!options.splitReadWriteTypes;
+    this.dedupeInlineTypes = options.dedupeInlineTypes !== false;
+    this.renameCollisions = !!options.renameCollisions;
+    this.interfaceGrouping = options.interfaceGrouping || 'tag';
+    this.interfacePathSegments = parseInterfacePathSegments(
+      options.interfacePathSegments,
+    );
   }
 
   public readonly violations: Violation[] = [];
 
+  private readonly documents: DocumentSet;
   private readonly schema: OAS3.OpenAPINode;
+  private readonly dialect: Dialect;
+  private readonly anyOfMode: AnyOfMode;
+  private readonly splitReadWriteTypes: boolean;
+  private readonly dedupeInlineTypes: boolean;
+  private readonly renameCollisions: boolean;
+  private readonly interfaceGrouping: InterfaceGrouping;
+  private readonly interfacePathSegments: number;
 
   private readonly ruleFactories: ValidationRuleFactory[] = factories;
   private enums: Enum[];
   private anonymousTypes: Type[];
   private unions: Union[] = [];
+  private externalNames: Set<string>;
+  private readonly parsingTypeNames = new Map<AST.ASTNode, Scalar<string>>();
+  private readonly unresolvedRefs = new Set<string>();
+  private readonly circularSchemas = new Set<string>();
+  private readonly resolving = new Set<AST.ASTNode>();
+  private readonly checkedNullability = new Set<AST.ASTNode>();
+  private readonly checkedRequiredDefaults = new Set<AST.ASTNode>();
+  private readonly checkedEnumExtensions = new Set<AST.ASTNode>();
+  private readonly checkedParameterStyles = new Set<AST.ASTNode>();
+  private readonly checkedCookieParameters = new Set<AST.ASTNode>();
+  private readonly checkedDiscriminators = new Set<AST.ASTNode>();
+  private readonly checkedBooleanSubschemas = new Set<AST.ASTNode>();
+  private readonly checkedPrefixItems = new Set<AST.ASTNode>();
+  private readonly checkedTypeArrays = new Set<AST.ASTNode>();
+  private readonly checkedAnyOfModes = new Set<AST.ASTNode>();
+  private readonly checkedMergedMembers = new Set<AST.ASTNode>();
+  private readonly readWriteVariants = new Map<AST.ASTNode, boolean>();
+  private readonly inlineDefinitions = new Map<string, Enum | Type>();
+  private readonly inlineDefinitionUses = new Map<
+    Enum | Type,
+    Map<AST.ASTNode, string>
+  >();
+  private readonly inlineDefinitionKeys = new Map<string, string>();
+  private readonly recursiveTypeNames = new Set<string>();
+  private readonly definitionNodes = new Map<
+    Enum | Type | Union,
+    DocumentNode
+  >();
+  private componentNames = new Set<string>();
+  private operationNames = new Map<AST.ASTNode, Scalar<string>>();
+  private usage: Usage | undefined;
 
   parse(): Service {
     this.enums = [];
     this.anonymousTypes = [];
+    this.externalNames = new Set();
+    this.componentNames = new Set(
+      (this.getSchemas()?.keys || []).map((key) => pascal(key)),
+    );
+    this.operationNames = this.parseOperationNames();
     const interfaces = this.parseInterfaces();
     const types = this.parseDefinitions();
 
+    this.renameMetaReferences(
+      [...types, ...this.anonymousTypes, ...this.unions],
+      this.nameSharedDefinitions(types),
+    );
+
+    this.checkNameCollisions([
+      ...types,
+      ...this.anonymousTypes,
+      ...this.enums,
+      ...this.unions,
+    ]);
+
     const typesByName = [...types, ...this.anonymousTypes].reduce(
       (acc, item) => ({ ...acc, [item.name.value]: item }),
       {},
@@ -75,6 +272,9 @@ export class OAS3Parser {
       {},
     );
 
+    // Includes violations from upgrading any documents loaded while parsing
+    this.violations.push(...this.documents.violations);
+
     this.schema.info.title.loc;
 
     return {
@@ -119,16 +319,117 @@ export class OAS3Parser {
   }
 
   private parseInterfaces(): Interface[] {
-    return this.parserInterfaceNames().map((name) => ({
+    return [
+      ...this.parseSourceInterfaces('paths'),
+      ...this.parseSourceInterfaces('webhooks'),
+    ];
+  }
+
+  private parseSourceInterfaces(source: OperationSource): Interface[] {
+    return this.parserInterfaceNames(source).map((name) => ({
       kind: 'Interface',
-      name: { value: singular(name) },
-      methods: this.parseMethods(name),
+      name: { value: name },
+      methods: this.parseMethods(name, source),
       protocols: {
-        http: this.parseHttpProtocol(name),
+        http: this.parseHttpProtocol(name, source),
       },
+      meta: this.parseSourceMeta(source, undefined),
     }));
   }
 
+  /**
+   * Marks the nodes parsed from `webhooks` so that generators can tell the
+   * inbound requests that a client receives apart from the operations that
+   * the service implements.
+   */
+  private parseSourceMeta(
+    source: OperationSource,
+    meta: Meta | undefined,
+  ): Meta | undefined {
+    if (source !== 'webhooks') return meta;
+
+    return [
+      ...(meta || []),
+      { key: { value: 'webhook' }, value: { value: true } },
+    ];
+  }
+
+  /**
+   * Marks values that may be `null`, whether via the 3.0 `nullable` keyword or
+   * a 3.1 `null` type.
+   */
+  private parseNullableMeta(
+    schema: OAS3.SchemaNodeUnion | undefined,
+    required: boolean | undefined,
+    meta: Meta | undefined,
+  ): Meta | undefined {
+    if (!schema) return meta;
+
+    const nullable = schema.nullable?.value === true || !!schema.nullType;
+    const defaultValue = this.parseDefaultNode(schema);
+
+    if (!this.checkedNullability.has(schema.node)) {
+      this.checkedNullability.add(schema.node);
+
+      if (schema.nullable?.value === false && schema.nullType) {
+        this.nullableContradiction(
+          "The schema has a 'null' type but is not nullable.",
+          schema.nullable,
+        );
+      }
+      if (!nullable && defaultValue?.value === null) {
+        this.nullableContradiction(
+          'The default is null but the schema is not nullable.',
+          defaultValue,
+        );
+      }
+    }
+
+    if (
+      nullable &&
+      required &&
+      defaultValue &&
+      defaultValue.value !== null &&
+      !this.checkedRequiredDefaults.has(defaultValue.node)
+    ) {
+      this.checkedRequiredDefaults.add(defaultValue.node);
+      this.nullableContradiction(
+        'The value is nullable and required but has a non-null default.',
+        defaultValue,
+      );
+    }
+
+    if (!nullable) return meta;
+
+    return [
+      ...(meta || []),
+      { key: { value: 'nullable' }, value: { value: true } },
+    ];
+  }
+
+  private parseDefaultNode(
+    schema: OAS3.SchemaNodeUnion,
+  ): OAS3.LiteralNode<string | number | boolean | null> | undefined {
+    switch (schema.nodeType) {
+      case 'StringSchema':
+      case 'NumberSchema':
+      case 'BooleanSchema':
+        return schema.default;
+      default:
+        return undefined;
+    }
+  }
+
+  private nullableContradiction(message: string, node: DocumentNode): void {
+    this.violations.push({
+      code: 'openapi-3/nullable-contradiction',
+      message,
+      range: node.loc,
+      severity: 'warning',
+      sourcePath: this.documents.sourcePathOf(node.node),
+    });
+  }
+
   private parseResponseCode(
     verb: string,
     operation: OAS3.OperationNode,
@@ -158,20 +459,21 @@ export class OAS3Parser {
     return { value: 200 };
   }
 
-  private parseHttpProtocol(interfaceName: string): HttpPath[] {
-    if (!this.schema.paths) return [];
+  private parseHttpProtocol(
+    interfaceName: string,
+    source: OperationSource,
+  ): HttpPath[] {
+    const pathsNode = this.schema[source];
+    if (!pathsNode) return [];
 
-    const paths = this.schema.paths.keys;
+    const paths = pathsNode.keys;
 
     const httpPaths: HttpPath[] = [];
 
     for (const path of paths) {
-      const pathItem = this.resolve(
-        this.schema.paths.read(path)!,
-        OAS3.PathItemNode,
-      );
-      const keyLoc = this.schema.paths.keyRange(path);
-      const loc = this.schema.paths.propRange(path)!;
+      const pathItem = this.resolve(pathsNode.read(path)!, OAS3.PathItemNode);
+      const keyLoc = pathsNode.keyRange(path);
+      const loc = pathsNode.propRange(path)!;
       const commonParameters = pathItem.parameters || [];
 
       const httpPath: HttpPath = {
@@ -184,23 +486,22 @@ export class OAS3Parser {
       for (const verb of pathItem.keys) {
         if (verb === 'parameters') continue;
         const operation = pathItem[verb]! as OAS3.OperationNode;
-        if (this.parseInterfaceName(path, operation) !== interfaceName) {
+        if (
+          !this.parseInterfaceNames(path, operation, source).includes(
+            interfaceName,
+          )
+        ) {
           continue;
         }
 
         const verbLoc = pathItem.keyRange(verb);
         const methodLoc = pathItem.propRange(verb)!;
 
-        const methodName = operation.operationId?.value || 'unknown';
+        const methodName = this.parseOperationName(operation);
 
         const httpMethod: HttpMethod = {
           kind: 'HttpMethod',
-          name: {
-            value: methodName,
-            loc: operation.operationId
-              ? range(operation.operationId)
-              : undefined,
-          },
+          name: methodName,
           verb: { value: verb as any, loc: verbLoc },
           parameters: [],
           successCode: this.parseResponseCode(verb, operation),
@@ -212,7 +513,7 @@ export class OAS3Parser {
         const bodyParamName = this.parseBodyParamName(operation);
         const body = this.parseRequestBody(
           operation.requestBody,
-          methodName,
+          methodName.value,
           bodyParamName,
         );
 
@@ -229,25 +530,27 @@ export class OAS3Parser {
           ...(operation.parameters || []),
           ...commonParameters,
         ]) {
-          const name = this.parseParameterName(param);
+          const resolved = this.resolveParam(param);
+          if (!resolved) continue;
 
-          const resolved = OAS3.resolveParam(this.schema.node, param);
-          if (!resolved) throw new Error('Cannot resolve reference');
-
-          const location = this.parseParameterLocation(param);
+          const { name, in: location } = resolved;
 
           const locationValue = location.value;
 
           if (locationValue === 'cookie') {
-            // TODO: Support cookie location
-            this.violations.push({
-              code: 'openapi-3/unsupported-feature',
-              message:
-                'Cookie is not yet supported. This parameter will be ignored.',
-              range: location.loc,
-              severity: 'warning',
-              sourcePath: this.sourcePath,
-            });
+            // The HTTP protocol can't represent cookies. Instead, the method
+            // parameter's `httpParameter` meta describes how it is serialized.
+            if (!this.checkedCookieParameters.has(resolved.node)) {
+              this.checkedCookieParameters.add(resolved.node);
+              this.violations.push({
+                code: 'openapi-3/unsupported-feature',
+                message:
+                  "Cookie parameters are not included in the HTTP protocol. See the method parameter's 'httpParameter' meta instead.",
+                range: location.loc,
+                severity: 'info',
+                sourcePath: this.documents.sourcePathOf(location.node),
+              });
+            }
             continue;
           }
 
@@ -319,14 +622,9 @@ export class OAS3Parser {
     switch (paramNode.style.value) {
       case 'matrix':
       case 'label':
-        // TODO: support RFC6570
-        this.violations.push({
-          code: 'openapi-3/unsupported-feature',
-          message: `Parameter style '${paramNode.style.value}' is not yet supported. The default 'csv' array style will be used instead.`,
-          range: paramNode.style.loc,
-          severity: 'warning',
-          sourcePath: this.sourcePath,
-        });
+        // Unexploded values are comma-separated. The method parameter's
+        // `httpParameter` meta describes the exact serialization.
+        value = 'csv';
         break;
       case 'form':
         value = paramNode.explode?.value ? 'multi' : 'csv';
@@ -345,37 +643,89 @@ export class OAS3Parser {
     return { value, loc: encodeRange(paramNode.style.loc) };
   }
 
-  private *allOperations(): Iterable<{
+  private *allOperations(source: OperationSource): Iterable<{
     path: string;
     verb: string;
     operation: OAS3.OperationNode;
   }> {
-    const pathsNode = this.schema.paths;
+    const pathsNode = this.schema[source];
     if (!pathsNode) return;
     for (const path of pathsNode.keys) {
-      for (const verb of pathsNode.read(path)!.keys) {
+      const pathItem = this.resolve(pathsNode.read(path)!, OAS3.PathItemNode);
+      for (const verb of pathItem.keys) {
         if (verb === 'parameters' || verb.startsWith('x-')) continue;
 
-        const operation: OAS3.OperationNode = pathsNode.read(path)![verb];
+        const operation: OAS3.OperationNode = pathItem[verb];
 
         yield { path, verb, operation };
       }
     }
   }
 
-  private parserInterfaceNames(): string[] {
+  private parserInterfaceNames(source: OperationSource): string[] {
     const interfaceNames = new Set<string>();
-    for (const { path, operation } of this.allOperations()) {
-      interfaceNames.add(this.parseInterfaceName(path, operation));
+    for (const { path, operation } of this.allOperations(source)) {
+      for (const name of this.parseInterfaceNames(path, operation, source)) {
+        interfaceNames.add(name);
+      }
     }
     return Array.from(interfaceNames);
   }
 
-  private parseInterfaceName(
+  /** Returns the names of the interfaces that include the operation */
+  private parseInterfaceNames(
     path: string,
     operation: OAS3.OperationNode,
-  ): string {
-    return operation.tags?.[0].value || path.split('/')[1];
+    source: OperationSource,
+  ): string[] {
+    // Webhooks are keyed by name rather than by path
+    if (source === 'webhooks') {
+      return this.parseGroupNames(path, operation, path).map((name) =>
+        singular(camel(`${name}_webhooks`)),
+      );
+    }
+
+    return this.parseGroupNames(path, operation, path.split('/')[1]);
+  }
+
+  /**
+   * Returns the singular names of the operation's groups. Names from the
+   * `x-interface` extension are used as written.
+   */
+  private parseGroupNames(
+    path: string,
+    operation: OAS3.OperationNode,
+    fallback: string,
+  ): string[] {
+    const firstTag = operation.tags?.[0].value;
+
+    switch (this.interfaceGrouping) {
+      case 'tags':
+        return operation.tags?.length
+          ? Array.from(
+              new Set(operation.tags.map((tag) => singular(tag.value))),
+            )
+          : [singular(fallback)];
+      case 'extension':
+        return operation.interfaceName
+          ? [operation.interfaceName.value]
+          : [singular(firstTag || fallback)];
+      case 'path':
+        const segments = path
+          .split('/')
+          .filter(
+            (segment) =>
+              segment && !segment.startsWith('{') && !/^v\d+$/i.test(segment),
+          )
+          .slice(0, this.interfacePathSegments);
+
+        return [
+          singular(segments.length ? camel(segments.join('_')) : fallback),
+        ];
+      case 'tag':
+      default:
+        return [singular(firstTag || fallback)];
+    }
   }
 
   private parseDeprecated(node: {
@@ -387,47 +737,188 @@ export class OAS3Parser {
     return;
   }
 
-  private parseMethods(interfaceName: string): Method[] {
-    const pathsNode = this.schema.paths;
+  private parseMethods(
+    interfaceName: string,
+    source: OperationSource,
+  ): Method[] {
+    const pathsNode = this.schema[source];
     if (!pathsNode) return [];
-    const paths = pathsNode.keys;
 
     const methods: Method[] = [];
 
-    for (const { path, verb, operation } of this.allOperations()) {
+    for (const { path, verb, operation } of this.allOperations(source)) {
       const pathNode = this.resolve(pathsNode.read(path)!, OAS3.PathItemNode);
       const commonParameters = pathNode.parameters || [];
 
-      if (this.parseInterfaceName(path, operation) !== interfaceName) {
+      if (
+        !this.parseInterfaceNames(path, operation, source).includes(
+          interfaceName,
+        )
+      ) {
         continue;
       }
 
       operation.deprecated;
 
-      const nameLoc = operation.operationId
-        ? range(operation.operationId)
-        : undefined;
+      const meta = this.parseSourceMeta(source, this.parseMeta(operation));
+
       methods.push({
         kind: 'Method',
-        name: {
-          value: operation.operationId?.value || 'UNNAMED',
-          loc: nameLoc,
-        },
+        name: this.parseOperationName(operation),
         security: this.parseSecurity(operation),
-        parameters: this.parseParameters(operation, commonParameters),
+        parameters: this.parseParameters(operation, commonParameters, path),
         description: this.parseDescription(
           operation.summary,
           operation.description,
         ),
         deprecated: this.parseDeprecated(operation),
         returnType: this.parseReturnType(operation),
-        loc: pathsNode.read(path)!.propRange(verb)!,
-        meta: this.parseMeta(operation),
+        loc: pathNode.propRange(verb)!,
+        meta: operation.operationId
+          ? meta
+          : [
+              ...(meta || []),
+              {
+                key: { value: 'derivedName' },
+                value: { value: { verb, path } },
+              },
+            ],
       });
     }
     return methods;
   }
 
+  /**
+   * Names the method of every operation in the document. Operations without an
+   * `operationId` are named after their verb and path (eg. `GET /pets/{petId}`
+   * becomes `getPetById`), with a number appended if that name is taken.
+   */
+  private parseOperationNames(): Map<AST.ASTNode, Scalar<string>> {
+    const names = new Map<AST.ASTNode, Scalar<string>>();
+    const operationIds: OAS3.LiteralNode<string>[] = [];
+    const unnamed: { path: string; verb: string; node: AST.ASTNode }[] = [];
+    const sources: OperationSource[] = ['paths', 'webhooks'];
+
+    for (const source of sources) {
+      for (const { path, verb, operation } of this.allOperations(source)) {
+        // Path items may be shared via refs
+        if (names.has(operation.node)) continue;
+
+        if (operation.operationId) {
+          names.set(operation.node, {
+            value: operation.operationId.value,
+            loc: range(operation.operationId),
+          });
+          operationIds.push(operation.operationId);
+        } else {
+          unnamed.push({ path, verb, node: operation.node });
+        }
+      }
+    }
+
+    this.checkOperationIds(operationIds);
+
+    const taken = new Set(operationIds.map((id) => camel(id.value)));
+
+    for (const { path, verb, node } of unnamed) {
+      if (names.has(node)) continue;
+      const derivedName = this.deriveOperationName(verb, path);
+
+      let name = derivedName;
+      for (let i = 2; taken.has(name); i++) {
+        name = `${derivedName}${i}`;
+      }
+
+      taken.add(name);
+      names.set(node, { value: name });
+    }
+
+    return names;
+  }
+
+  /**
+   * Reports operationIds that are used more than once, including those that
+   * only differ by case or separators (eg. `get_pets` and `getPets`) and thus
+   * would generate the same method name.
+   */
+  private checkOperationIds(operationIds: OAS3.LiteralNode<string>[]): void {
+    const operationIdsByName = new Map<string, OAS3.LiteralNode<string>[]>();
+
+    for (const operationId of operationIds) {
+      const name = camel(operationId.value);
+      operationIdsByName.set(name, [
+        ...(operationIdsByName.get(name) || []),
+        operationId,
+      ]);
+    }
+
+    for (const duplicates of Array.from(operationIdsByName.values())) {
+      if (duplicates.length < 2) continue;
+
+      for (const operationId of duplicates) {
+        const others = duplicates
+          .filter((other) => other !== operationId)
+          .map((other) => `'${other.value}' (line ${other.loc.start.line})`)
+          .join(', ');
+
+        this.violations.push({
+          code: 'openapi-3/duplicate-operation-id',
+          message: duplicates.every(
+            (other) => other.value === operationId.value,
+          )
+            ? `The operationId '${operationId.value}' is also used by ${others}. operationIds must be unique.`
+            : `The operationId '${operationId.value}' generates the same method name as ${others}.`,
+          range: operationId.loc,
+          severity: 'error',
+          sourcePath: this.documents.sourcePathOf(operationId.node),
+        });
+      }
+    }
+  }
+
+  /**
+   * Derives a method name from a verb and path. Collections followed by a path
+   * parameter are singularized and a trailing parameter is named with `By`
+   * (eg. `GET /owners/{ownerId}/pets/{petId}` becomes `getOwnerPetById`).
+   */
+  private deriveOperationName(verb: string, path: string): string {
+    const segments = path.split('/').filter((segment) => segment);
+    const words: string[] = [verb];
+
+    segments.forEach((segment, i) => {
+      const param = /^\{(.+)\}$/.exec(segment)?.[1];
+      if (!param) {
+        words.push(segment);
+        return;
+      }
+
+      const previous = segments[i - 1];
+      const collection =
+        previous && !previous.startsWith('{')
+          ? singular(words.pop()!)
+          : undefined;
+      if (collection) words.push(collection);
+
+      if (i === segments.length - 1) {
+        const paramName = camel(param);
+        const prefix = collection ? camel(collection) : '';
+
+        words.push(
+          'by',
+          prefix && paramName.startsWith(prefix) && paramName !== prefix
+            ? paramName.substring(prefix.length)
+            : paramName,
+        );
+      }
+    });
+
+    return camel(words.join(' '));
+  }
+
+  private parseOperationName(operation: OAS3.OperationNode): Scalar<string> {
+    return this.operationNames.get(operation.node) || { value: '' };
+  }
+
   private parseDescription(
     summary: OAS3.LiteralNode<string> | undefined,
     description: OAS3.LiteralNode<string> | undefined,
@@ -621,6 +1112,7 @@ export class OAS3Parser {
   private parseParameters(
     operation: OAS3.OperationNode,
     commonParameters: (OAS3.ParameterNode | OAS3.RefNode)[],
+    path: string,
   ): Parameter[] {
     const parametersOrRefs = [
       ...commonParameters,
@@ -628,16 +1120,18 @@ export class OAS3Parser {
     ];
 
     const parameters = parametersOrRefs
-      .map((p) => OAS3.resolveParam(this.schema.node, p))
+      .map((p) => this.resolveParam(p))
       .filter((p): p is OAS3.ParameterNode => !!p);
 
+    const methodName = this.parseOperationName(operation).value;
+
     const nonBodyParams = parameters.map((p) =>
-      this.parseParameter(p, operation.operationId?.value || ''),
+      this.parseParameter(p, methodName, path),
     );
 
     const bodyParam = this.parseRequestBody(
       operation.requestBody,
-      operation.operationId?.value || '',
+      methodName,
       this.parseBodyParamName(operation),
     );
 
@@ -657,6 +1151,7 @@ export class OAS3Parser {
   private parseParameter(
     param: OAS3.ParameterNode,
     methodName: string,
+    path: string,
   ): Parameter {
     // const unresolved = isBodyParameter(param) ? param.schema : param;
     // const resolved = OAS3.resolveParamOrSchema(this.schema.node, unresolved);
@@ -664,14 +1159,17 @@ export class OAS3Parser {
     if (!param.schema) throw new Error('Unexpected undefined schema');
 
     const unresolved = param.schema;
-    const resolved = OAS3.resolveSchema(this.schema.node, param.schema);
+    const resolved = this.resolveSchema(param.schema);
 
-    if (!resolved) throw new Error('Cannot resolve reference');
     // if (resolved.nodeType === 'BodyParameter') {
     //   throw new Error('Unexpected body parameter');
     // }
 
-    const x = this.parseType(unresolved, param.name.value, methodName);
+    const x = this.withUsage('input', () =>
+      this.parseType(unresolved, param.name.value, methodName),
+    );
+
+    this.checkParameterStyle(param);
 
     if (x.isPrimitive) {
       return {
@@ -685,7 +1183,15 @@ export class OAS3Parser {
         deprecated: this.parseDeprecated(param),
         rules: this.parseRules(resolved, param.required?.value),
         loc: range(param),
-        meta: this.parseMeta(param),
+        meta: this.parseHttpParameterMeta(
+          param,
+          path,
+          this.parseNullableMeta(
+            resolved,
+            param.required?.value,
+            this.parseMeta(param),
+          ),
+        ),
       };
     } else {
       return {
@@ -698,11 +1204,83 @@ export class OAS3Parser {
         deprecated: this.parseDeprecated(param),
         rules: this.parseRules(resolved, param.required?.value),
         loc: range(param),
-        meta: this.parseMeta(param),
+        meta: this.parseHttpParameterMeta(
+          param,
+          path,
+          this.parseNullableMeta(
+            resolved,
+            param.required?.value,
+            this.parseMeta(param),
+          ),
+        ),
       };
     }
   }
 
+  /**
+   * Describes how parameters that the HTTP protocol can't represent are
+   * serialized: cookies and `matrix` or `label` style path parameters. The
+   * style may also be implied by the path (eg. `/map/{;coords*}`). Only the
+   * `form` style explodes arrays and objects by default.
+   */
+  private parseHttpParameterMeta(
+    param: OAS3.ParameterNode,
+    path: string,
+    meta: Meta | undefined,
+  ): Meta | undefined {
+    const location = param.in.value;
+    const expression =
+      location === 'path'
+        ? parsePathExpression(path, param.name.value)
+        : undefined;
+
+    const style =
+      param.style?.value ||
+      expression?.style ||
+      (location === 'query' || location === 'cookie' ? 'form' : 'simple');
+
+    if (location !== 'cookie' && style !== 'matrix' && style !== 'label') {
+      return meta;
+    }
+
+    return [
+      ...(meta || []),
+      {
+        key: { value: 'httpParameter' },
+        value: {
+          value: {
+            in: location,
+            style,
+            explode: param.explode
+              ? param.explode.value
+              : !!expression?.explode || style === 'form',
+          },
+          loc: range(param),
+        },
+      },
+    ];
+  }
+
+  /** Reports parameter styles that aren't allowed in the parameter's location */
+  private checkParameterStyle(param: OAS3.ParameterNode): void {
+    const { style } = param;
+    if (!style || this.checkedParameterStyles.has(param.node)) return;
+    this.checkedParameterStyles.add(param.node);
+
+    const allowed = parameterStyles[param.in.value];
+    if (!allowed || allowed.includes(style.value)) return;
+
+    this.violations.push({
+      code: 'openapi-3/invalid-parameter-style',
+      message: `Parameter style '${style.value}' is not allowed in ${
+        param.in.value
+      } parameters. Use one of: ${allowed.map((s) => `'${s}'`).join(', ')}.`,
+      range: style.loc,
+      severity: 'error',
+      sourcePath: this.documents.sourcePathOf(style.node),
+    });
+  }
+
   private parseRequestBody(
     bodyOrRef: OAS3.RefNode | OAS3.RequestBodyNode | undefined,
     methodName: string,
@@ -715,10 +1293,12 @@ export class OAS3Parser {
     const schemaOrRef = this.getSchemaOrRef(body.content);
     if (!schemaOrRef) return;
 
-    const schema = OAS3.resolveSchema(this.schema.node, schemaOrRef);
+    const schema = this.resolveSchema(schemaOrRef);
     if (!schema) return;
 
-    const x = this.parseType(schemaOrRef, paramName.value, methodName);
+    const x = this.withUsage('input', () =>
+      this.parseType(schemaOrRef, paramName.value, methodName),
+    );
 
     if (x.isPrimitive) {
       return {
@@ -730,7 +1310,11 @@ export class OAS3Parser {
         isArray: x.isArray,
         rules: this.parseRules(schema, body.required?.value),
         loc: range(body),
-        meta: this.parseMeta(body),
+        meta: this.parseNullableMeta(
+          schema,
+          body.required?.value,
+          this.parseMeta(body),
+        ),
       };
     } else {
       return {
@@ -742,29 +1326,15 @@ export class OAS3Parser {
         isArray: x.isArray,
         rules: this.parseRules(schema, body.required?.value),
         loc: range(body),
-        meta: this.parseMeta(body),
+        meta: this.parseNullableMeta(
+          schema,
+          body.required?.value,
+          this.parseMeta(body),
+        ),
       };
     }
   }
 
-  private parseParameterLocation(
-    def: OAS3.ParameterNode | OAS3.RefNode,
-  ): OAS3.ParameterNode['in'] {
-    const resolved = OAS3.resolveParam(this.schema.node, def);
-    if (!resolved) throw new Error('Cannot resolve reference');
-
-    return resolved.in;
-  }
-
-  private parseParameterName(
-    def: OAS3.ParameterNode | OAS3.RefNode,
-  ): OAS3.ParameterNode['name'] {
-    const resolved = OAS3.resolveParam(this.schema.node, def);
-    if (!resolved) throw new Error('Cannot resolve reference');
-
-    return resolved.name;
-  }
-
   private parseType(
     schemaOrRef: // | Exclude<OAS3.ParameterNodeUnion, OAS3.BodyParameterNode>
     OAS3.SchemaNodeUnion | OAS3.RefNode,
@@ -776,47 +1346,47 @@ export class OAS3Parser {
     loc: string;
   } & TypedValue {
     if (OAS3.isRefNode(schemaOrRef)) {
-      const schema = OAS3.resolveSchema(this.schema.node, schemaOrRef);
+      const schema = this.resolveSchema(schemaOrRef);
       if (!schema) {
-        throw new Error(
-          `Cannot resolve reference: '${schemaOrRef.$ref.value}'`,
-        );
+        return {
+          typeName: { value: 'untyped' },
+          isPrimitive: true,
+          isArray: false,
+          rules: [],
+          loc: range(schemaOrRef),
+        };
       }
       // if (res.nodeType === 'BodyParameter') {
       //   throw new Error('Unexpected body parameter');
       // }
 
-      // TODO: do a better job of detecting a definitions ref
-      const prefix = '#/components/schemas/';
-      if (schemaOrRef.$ref.value.startsWith(prefix)) {
+      const { name: refName, isExternal } = this.parseRefName(schemaOrRef);
+      if (refName) {
         if (OAS3.isObject(schema)) {
+          const name = {
+            value: this.parseVariantName(refName, schema),
+            loc: OAS3.refRange(this.documents, schemaOrRef),
+          };
+
+          if (isExternal) this.parseExternalDefinition(name, schema);
+
           return {
-            typeName: {
-              value: schemaOrRef.$ref.value.substring(prefix.length),
-              loc: OAS3.refRange(this.schema.node, schemaOrRef.$ref.value),
-            },
+            typeName: name,
             isPrimitive: false,
             isArray: false,
             rules: this.parseRules(schema),
             loc: range(schema),
           };
-        } else if (OAS3.isString(schema) && schema.enum) {
+        } else if (
+          (OAS3.isString(schema) || OAS3.isNumber(schema)) &&
+          schema.enum
+        ) {
           const name = {
-            value: schemaOrRef.$ref.value.substring(prefix.length),
-            loc: OAS3.refRange(this.schema.node, schemaOrRef.$ref.value),
+            value: refName,
+            loc: OAS3.refRange(this.documents, schemaOrRef),
           };
 
-          this.enums.push({
-            kind: 'Enum',
-            name: name,
-            values: schema.enum.map<EnumValue>((n) => ({
-              kind: 'EnumValue',
-              content: { value: n.value, loc: encodeRange(n.loc) },
-              loc: range(n),
-            })),
-            deprecated: this.parseDeprecated(schema),
-            loc: schema.propRange('enum')!,
-          });
+          this.enums.push(this.parseEnum(name, schema));
           return {
             typeName: name,
             isPrimitive: false,
@@ -824,24 +1394,54 @@ export class OAS3Parser {
             rules: this.parseRules(schema),
             loc: range(schema),
           };
-        } else {
-          return this.parseType(schema, localName, parentName);
         }
-      } else {
+      }
+
+      // Anything else is parsed as if the target were inline. A recursive ref
+      // back to an object schema reuses its type name, but a ref back to any
+      // other schema that is still being parsed (eg. an array of itself) can't
+      // be represented.
+      if (!OAS3.isObject(schema) && this.resolving.has(schema.node)) {
+        this.circularSchema(
+          schemaOrRef,
+          `Ref '${schemaOrRef.$ref.value}' refers to itself without an intervening named object schema.`,
+        );
         return {
-          typeName: {
-            value: schemaOrRef.$ref.value,
-            loc: OAS3.refRange(this.schema.node, schemaOrRef.$ref.value),
-          },
-          isPrimitive: false,
+          typeName: { value: 'untyped' },
+          isPrimitive: true,
           isArray: false,
-          rules: this.parseRules(schema),
-          loc: range(schema),
+          rules: [],
+          loc: range(schemaOrRef),
         };
       }
+
+      this.resolving.add(schema.node);
+      const type = this.parseType(schema, localName, parentName);
+      this.resolving.delete(schema.node);
+
+      return type;
+    }
+
+    if (schemaOrRef.nodeType === 'BooleanSubschema') {
+      return this.parseBooleanSubschema(schemaOrRef);
     }
+
     const rules = this.parseRules(schemaOrRef);
 
+    const [, ...otherTypes] = schemaOrRef.types.filter(
+      (t) => t.value !== 'null' && t.value !== null,
+    );
+    if (otherTypes.length && !this.checkedTypeArrays.has(schemaOrRef.node)) {
+      this.checkedTypeArrays.add(schemaOrRef.node);
+      this.violations.push({
+        code: 'openapi-3/unsupported-feature',
+        message: `Multiple non-null types are not yet supported. Only '${schemaOrRef.type.value}' will be used.`,
+        range: otherTypes[0].loc,
+        severity: 'warning',
+        sourcePath: this.documents.sourcePathOf(otherTypes[0].node),
+      });
+    }
+
     switch (schemaOrRef.nodeType) {
       // case 'StringParameter':
       case 'StringSchema':
@@ -856,21 +1456,19 @@ export class OAS3Parser {
               loc: range(schemaOrRef),
             };
           } else {
-            const enumName = camel(`${parentName}_${singular(localName)}`);
-            this.enums.push({
-              kind: 'Enum',
-              name: { value: enumName },
-              values: schemaOrRef.enum.map<EnumValue>((n) => ({
-                kind: 'EnumValue',
-                content: { value: n.value, loc: encodeRange(n.loc) },
-                // TODO: deprecated
-                loc: range(n),
-              })),
-              deprecated: this.parseDeprecated(schemaOrRef),
-              loc: schemaOrRef.propRange('enum')!,
-            });
+            const { name, explicit } = this.parseAnonymousName(
+              schemaOrRef,
+              camel(`${parentName}_${singular(localName)}`),
+            );
+            const enumName = this.parseInlineDefinition(
+              this.parseEnum({ value: name }, schemaOrRef),
+              this.enums,
+              schemaOrRef,
+              singular(localName),
+              explicit,
+            );
             return {
-              typeName: { value: enumName },
+              typeName: enumName,
               isPrimitive: false,
               isArray: false,
               rules,
@@ -889,17 +1487,48 @@ export class OAS3Parser {
         }
       // case 'NumberParameter':
       case 'NumberSchema':
-        return {
-          ...this.parseNumberName(schemaOrRef),
-          isArray: false,
-          default: toScalar(schemaOrRef.default),
-          constant: toScalar(schemaOrRef.const),
-          rules,
-          loc: range(schemaOrRef),
-        };
+        if (schemaOrRef.enum) {
+          if (!schemaOrRef.const && schemaOrRef.enum.length === 1) {
+            return {
+              ...this.parseNumberName(schemaOrRef),
+              isArray: false,
+              default: toScalar(schemaOrRef.default),
+              constant: toScalar(schemaOrRef.enum[0]),
+              rules,
+              loc: range(schemaOrRef),
+            };
+          } else {
+            const { name, explicit } = this.parseAnonymousName(
+              schemaOrRef,
+              camel(`${parentName}_${singular(localName)}`),
+            );
+            const enumName = this.parseInlineDefinition(
+              this.parseEnum({ value: name }, schemaOrRef),
+              this.enums,
+              schemaOrRef,
+              singular(localName),
+              explicit,
+            );
+            return {
+              typeName: enumName,
+              isPrimitive: false,
+              isArray: false,
+              rules,
+              loc: range(schemaOrRef),
+            };
+          }
+        } else {
+          return {
+            ...this.parseNumberName(schemaOrRef),
+            isArray: false,
+            default: toScalar(schemaOrRef.default),
+            constant: toScalar(schemaOrRef.const),
+            rules,
+            loc: range(schemaOrRef),
+          };
+        }
       // case 'BooleanParameter':
       case 'BooleanSchema':
-        // case 'NullSchema':
         return {
           typeName: {
             value: schemaOrRef.type.value,
@@ -912,10 +1541,30 @@ export class OAS3Parser {
           rules,
           loc: range(schemaOrRef),
         };
+      case 'NullSchema':
+        return {
+          typeName: { value: 'null', loc: range(schemaOrRef.type) },
+          isPrimitive: true,
+          isArray: false,
+          rules,
+          loc: range(schemaOrRef),
+        };
       // case 'ArrayParameter':
       case 'ArraySchema':
+        if (schemaOrRef.prefixItems) this.checkPrefixItems(schemaOrRef);
+
         if (!schemaOrRef.items) {
-          throw new Error('Expected array items but found undefined');
+          // As of OAS 3.1, `items` is optional and an array may contain anything
+          if (this.dialect !== '3.1') {
+            throw new Error('Expected array items but found undefined');
+          }
+          return {
+            typeName: { value: 'untyped' },
+            isPrimitive: true,
+            isArray: true,
+            rules,
+            loc: range(schemaOrRef),
+          };
         }
         const items = this.parseType(schemaOrRef.items, localName, parentName);
 
@@ -938,7 +1587,27 @@ export class OAS3Parser {
         }
 
       case 'ObjectSchema':
-        const typeName = { value: camel(`${parentName}_${localName}`) };
+        // Reuse the type if this schema is still being parsed (eg. when an
+        // inline schema is visited again via a recursive ref)
+        const existing = this.parsingTypeNames.get(schemaOrRef.node);
+        if (existing) {
+          this.recursiveTypeNames.add(existing.value);
+          return {
+            typeName: existing,
+            isPrimitive: false,
+            isArray: false,
+            rules,
+            loc: range(schemaOrRef),
+          };
+        }
+
+        const anonymousName = this.parseAnonymousName(
+          schemaOrRef,
+          camel(`${parentName}_${localName}`),
+        );
+        let typeName = { value: anonymousName.name };
+        this.parsingTypeNames.set(schemaOrRef.node, typeName);
+
         if (schemaOrRef.oneOf) {
           this.parseAsUnion(
             typeName.value,
@@ -946,27 +1615,45 @@ export class OAS3Parser {
             schemaOrRef.oneOf,
             undefined,
           );
+        } else if (schemaOrRef.anyOf && this.isAnyOfUnion(schemaOrRef)) {
+          this.parseAsUnion(
+            typeName.value,
+            schemaOrRef,
+            schemaOrRef.anyOf,
+            undefined,
+            false,
+          );
         } else {
-          this.anonymousTypes.push({
-            kind: 'Type',
-            name: typeName,
-            properties: this.parseProperties(
-              schemaOrRef.properties,
-              schemaOrRef.required,
-              schemaOrRef.allOf,
-              typeName.value,
-            ),
-            description: schemaOrRef.description
-              ? {
-                  value: schemaOrRef.description.value,
-                  loc: range(schemaOrRef.description),
-                }
-              : undefined,
-            deprecated: this.parseDeprecated(schemaOrRef),
-            rules: this.parseObjectRules(schemaOrRef),
-            loc: range(schemaOrRef),
-          });
+          typeName = this.parseInlineDefinition<Type>(
+            {
+              kind: 'Type',
+              name: typeName,
+              properties: this.parseObjectProperties(
+                schemaOrRef,
+                typeName.value,
+              ),
+              description: schemaOrRef.description
+                ? {
+                    value: schemaOrRef.description.value,
+                    loc: range(schemaOrRef.description),
+                  }
+                : undefined,
+              deprecated: this.parseDeprecated(schemaOrRef),
+              rules: this.parseObjectRules(schemaOrRef),
+              loc: range(schemaOrRef),
+              meta: this.parseAdditionalPropertiesMeta(
+                schemaOrRef,
+                typeName.value,
+                undefined,
+              ),
+            },
+            this.anonymousTypes,
+            schemaOrRef,
+            localName,
+            anonymousName.explicit,
+          );
         }
+        this.parsingTypeNames.delete(schemaOrRef.node);
 
         return {
           typeName,
@@ -986,6 +1673,364 @@ export class OAS3Parser {
     }
   }
 
+  /**
+   * Parses a 2020-12 boolean schema as an untyped value. A `false` schema allows
+   * no values at all, which can't be represented by a type.
+   */
+  private parseBooleanSubschema(
+    schema: OAS3.BooleanSubschemaNode,
+  ): { rules: ValidationRule[]; loc: string } & TypedValue {
+    if (!schema.value && !this.checkedBooleanSubschemas.has(schema.node)) {
+      this.checkedBooleanSubschemas.add(schema.node);
+      this.violations.push({
+        code: 'openapi-3/unsupported-feature',
+        message:
+          "The 'false' schema allows no values and is not yet supported. An untyped value will be used instead.",
+        range: schema.loc,
+        severity: 'warning',
+        sourcePath: this.documents.sourcePathOf(schema.node),
+      });
+    }
+
+    return {
+      typeName: { value: 'untyped' },
+      isPrimitive: true,
+      isArray: false,
+      rules: [],
+      loc: range(schema),
+    };
+  }
+
+  /**
+   * Tuples can't be represented in the IR. The array is parsed from `items`
+   * alone, or as an untyped array when there is no `items` schema.
+   */
+  private checkPrefixItems(schema: OAS3.ArraySchemaNode): void {
+    if (this.checkedPrefixItems.has(schema.node)) return;
+    this.checkedPrefixItems.add(schema.node);
+
+    this.violations.push({
+      code: 'openapi-3/unsupported-feature',
+      message:
+        "Tuples ('prefixItems') are not yet supported. The array will be parsed from 'items' only.",
+      range: decodeRange(schema.keyRange('prefixItems')),
+      severity: 'warning',
+      sourcePath: this.documents.sourcePathOf(schema.node),
+    });
+  }
+
+  /**
+   * Enum values are always strings in the IR. The values of numeric enums are
+   * their decimal representations and the enum's `valueType` meta is the
+   * numeric type (eg. `integer` or `double`).
+   */
+  private parseEnum(
+    name: Scalar<string>,
+    schema: OAS3.StringSchemaNode | OAS3.NumberSchemaNode,
+  ): Enum {
+    const values: OAS3.LiteralNode<string | number>[] = schema.enum || [];
+    const varNames = this.parseEnumExtension(schema.enumVarNames, values);
+    const descriptions = this.parseEnumExtension(
+      schema.enumDescriptions,
+      values,
+    );
+
+    const definition: Enum = {
+      kind: 'Enum',
+      name,
+      values: values.map<EnumValue>((n, i) => ({
+        kind: 'EnumValue',
+        content: { value: `${n.value}`, loc: encodeRange(n.loc) },
+        description: descriptions
+          ? this.parseDescriptionOnly(descriptions[i])
+          : undefined,
+        // TODO: deprecated
+        loc: range(n),
+        meta: varNames
+          ? [
+              {
+                key: { value: 'name' },
+                value: { value: varNames[i].value, loc: range(varNames[i]) },
+              },
+            ]
+          : undefined,
+      })),
+      deprecated: this.parseDeprecated(schema),
+      loc: schema.propRange('enum')!,
+      meta:
+        schema.nodeType === 'NumberSchema'
+          ? [
+              {
+                key: { value: 'valueType' },
+                value: { value: this.parseNumberName(schema).typeName.value },
+              },
+            ]
+          : undefined,
+    };
+
+    this.definitionNodes.set(definition, schema);
+    return definition;
+  }
+
+  /**
+   * Returns the items of an extension that has an item for each enum value.
+   * An extension with a different number of items is ignored.
+   */
+  private parseEnumExtension(
+    extension: OAS3.StringArrayNode | undefined,
+    values: OAS3.LiteralNode<string | number>[],
+  ): OAS3.LiteralNode<string>[] | undefined {
+    if (!extension) return;
+
+    const items = extension.values;
+    if (items.length === values.length) return items;
+
+    if (!this.checkedEnumExtensions.has(extension.node)) {
+      this.checkedEnumExtensions.add(extension.node);
+      this.violations.push({
+        code: 'openapi-3/invalid-extension',
+        message: `Expected ${values.length} items (one for each enum value) but found ${items.length}. This extension will be ignored.`,
+        range: extension.loc,
+        severity: 'warning',
+        sourcePath: this.documents.sourcePathOf(extension.node),
+      });
+    }
+    return;
+  }
+
+  /**
+   * Returns the name of an inline enum or anonymous type. A name given by the
+   * schema (its `x-basketry-name` or `title`) is preferred over one derived
+   * from where the schema is used.
+   */
+  private parseAnonymousName(
+    schema: OAS3.SchemaNodeUnion,
+    derivedName: string,
+  ): { name: string; explicit: boolean } {
+    const name =
+      schema.basketryName?.value ?? pascal(schema.title?.value || '');
+    if (!name) return { name: derivedName, explicit: false };
+
+    return {
+      name: OAS3.isObject(schema) ? this.parseVariantName(name, schema) : name,
+      explicit: true,
+    };
+  }
+
+  /**
+   * Adds an inline enum or anonymous type to its definitions unless an
+   * identical one has already been added, in which case the name of the
+   * existing definition is returned instead. Definitions that are named by
+   * their schema are only collapsed into identical ones of the same name.
+   * Recursive types are always kept. The local name (eg. the property or
+   * parameter name) of each schema is kept for `nameSharedDefinitions`.
+   */
+  private parseInlineDefinition<T extends Enum | Type>(
+    definition: T,
+    definitions: T[],
+    schema: OAS3.SchemaNodeUnion,
+    localName: string,
+    explicit: boolean,
+  ): Scalar<string> {
+    const name = definition.name.value;
+    const key = structuralKey(definition);
+    const recursive = this.recursiveTypeNames.has(name);
+
+    if (this.dedupeInlineTypes && !recursive) {
+      const dedupeKey = explicit ? `${name}:${key}` : key;
+      const existing = this.inlineDefinitions.get(dedupeKey);
+
+      if (!explicit) {
+        const shared = existing || definition;
+        const uses = this.inlineDefinitionUses.get(shared) || new Map();
+        uses.set(schema.node, localName);
+        this.inlineDefinitionUses.set(shared, uses);
+      }
+
+      if (existing) return existing.name;
+      this.inlineDefinitions.set(dedupeKey, definition);
+    }
+
+    // Recursive types are already referred to by their original name
+    if (this.renameCollisions && !recursive) {
+      definition.name.value = this.parseUniqueName(name, key);
+    }
+
+    const identifier = pascal(definition.name.value);
+    if (!this.inlineDefinitionKeys.has(identifier)) {
+      this.inlineDefinitionKeys.set(
+        identifier,
+        `${definition.name.value}:${key}`,
+      );
+    }
+
+    this.definitionNodes.set(definition, schema);
+    definitions.push(definition);
+    return definition.name;
+  }
+
+  /**
+   * Renames the inline definitions that were collapsed from more than one
+   * schema. Rather than after whichever schema happened to be parsed first, a
+   * shared definition is named after the local name that all of its schemas
+   * have in common (eg. `status`). When they have none, or another definition
+   * claims the same identifier, a hash of the definition's contents is used.
+   * Returns the new names by previous name.
+   */
+  private nameSharedDefinitions(types: Type[]): Map<string, string> {
+    const shared = Array.from(this.inlineDefinitionUses.entries())
+      .filter(([, uses]) => uses.size > 1)
+      .map(([definition, uses]) => {
+        const localNames = new Set(Array.from(uses.values(), (n) => camel(n)));
+        const [common] = Array.from(localNames);
+        return {
+          definition,
+          common:
+            localNames.size === 1 && /^[a-z]/i.test(common)
+              ? common
+              : undefined,
+        };
+      });
+
+    const sharedDefinitions = new Set(shared.map((s) => s.definition));
+    const claims = new Map<string, number>();
+    const claim = (name: string) => {
+      const identifier = pascal(name);
+      claims.set(identifier, (claims.get(identifier) || 0) + 1);
+    };
+
+    this.componentNames.forEach(claim);
+    for (const definition of [
+      ...types,
+      ...this.anonymousTypes,
+      ...this.enums,
+      ...this.unions,
+    ]) {
+      if (!sharedDefinitions.has(definition as Enum | Type)) {
+        claim(definition.name.value);
+      }
+    }
+    for (const { common } of shared) if (common) claim(common);
+
+    const renames = new Map<string, string>();
+    for (const { definition, common } of shared) {
+      const name =
+        common && claims.get(pascal(common)) === 1
+          ? common
+          : `${common || camel(definition.kind)}${createHash('sha1')
+              .update(structuralKey(definition))
+              .digest('hex')
+              .substring(0, 8)}`;
+
+      renames.set(definition.name.value, name);
+      definition.name.value = name;
+    }
+    return renames;
+  }
+
+  /**
+   * Updates the meta that refers to definitions by name (eg. the type of
+   * `additionalProperties`) after they have been renamed.
+   */
+  private renameMetaReferences(
+    definitions: (Type | Union)[],
+    renames: Map<string, string>,
+  ): void {
+    if (!renames.size) return;
+    const rename = (name: string) => renames.get(name) ?? name;
+
+    for (const definition of definitions) {
+      for (const { key, value } of definition.meta || []) {
+        if (key.value === 'additionalProperties') {
+          value.value.typeName = rename(value.value.typeName);
+        } else if (key.value === 'discriminatorMapping') {
+          const mapping: Record<string, string> = value.value;
+          for (const k of Object.keys(mapping)) mapping[k] = rename(mapping[k]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Appends the lowest number to the name that doesn't collide with a component
+   * schema or with a different inline definition.
+   */
+  private parseUniqueName(name: string, key: string): string {
+    const isTaken = (candidate: string) => {
+      const identifier = pascal(candidate);
+      const claimed = this.inlineDefinitionKeys.get(identifier);
+
+      return (
+        this.componentNames.has(identifier) ||
+        (claimed !== undefined && claimed !== `${candidate}:${key}`)
+      );
+    };
+
+    let unique = name;
+    for (let i = 2; isTaken(unique); i++) {
+      unique = `${name}${i}`;
+    }
+    return unique;
+  }
+
+  /**
+   * Reports definitions with different contents whose names would generate the
+   * same identifier (eg. `petResponse` and `PetResponse`). Otherwise, only one
+   * of them would be included in the service. Identical definitions with the
+   * same name are the same schema parsed more than once.
+   */
+  private checkNameCollisions(definitions: (Enum | Type | Union)[]): void {
+    const definitionsByIdentifier = new Map<string, (Enum | Type | Union)[]>();
+
+    for (const definition of definitions) {
+      const identifier = pascal(definition.name.value);
+      const group = definitionsByIdentifier.get(identifier) || [];
+      const key = structuralKey(definition);
+
+      if (
+        !group.some(
+          (other) =>
+            other.name.value === definition.name.value &&
+            structuralKey(other) === key,
+        )
+      ) {
+        group.push(definition);
+      }
+      definitionsByIdentifier.set(identifier, group);
+    }
+
+    for (const [first, ...others] of Array.from(
+      definitionsByIdentifier.values(),
+    )) {
+      if (!others.length) continue;
+
+      this.reportNameCollision(first, others[0]);
+      for (const other of others) {
+        this.reportNameCollision(other, first);
+      }
+    }
+  }
+
+  private reportNameCollision(
+    definition: Enum | Type | Union,
+    other: Enum | Type | Union,
+  ): void {
+    const node = this.definitionNodes.get(definition);
+    const otherNode = this.definitionNodes.get(other);
+    if (!node || !otherNode) return;
+
+    const { line, column } = otherNode.loc.start;
+    const otherPath = this.documents.sourcePathOf(otherNode.node);
+
+    this.violations.push({
+      code: 'openapi-3/name-collision',
+      message: `The name '${definition.name.value}' collides with '${other.name.value}' (${otherPath} line ${line}, column ${column}). Only one of them will be generated.`,
+      range: node.loc,
+      severity: 'error',
+      sourcePath: this.documents.sourcePathOf(node.node),
+    });
+  }
+
   private parseStringName(
     def: OAS3.ParameterNode | OAS3.StringSchemaNode,
   ): Omit<PrimitiveValue, 'isArray' | 'rules'> {
@@ -995,7 +2040,7 @@ export class OAS3Parser {
         throw new Error('Expected parameter schema but found undefined');
       }
 
-      const schema = OAS3.resolveSchema(this.schema.node, def.schema);
+      const schema = OAS3.resolveSchema(this.documents, def.schema);
 
       if (!schema) {
         throw new Error('Cannot resolve ref');
@@ -1052,7 +2097,7 @@ export class OAS3Parser {
         throw new Error('Expected parameter schema but found undefined');
       }
 
-      const schema = OAS3.resolveSchema(this.schema.node, def.schema);
+      const schema = OAS3.resolveSchema(this.documents, def.schema);
 
       if (!schema) {
         throw new Error('Cannot resolve ref');
@@ -1179,11 +2224,9 @@ export class OAS3Parser {
     if (!success) return;
 
     const response = this.resolve(success, OAS3.ResponseNode);
-    const prefix = '#/components/responses/';
-    const name =
-      OAS3.isRefNode(success) && success.$ref.value.startsWith(prefix)
-        ? success.$ref.value.substring(prefix.length)
-        : undefined;
+    const name = OAS3.isRefNode(success)
+      ? this.parseComponentName(success, 'responses')
+      : undefined;
 
     const schemaOrRef = this.getSchemaOrRef(response.content);
 
@@ -1191,10 +2234,17 @@ export class OAS3Parser {
 
     return {
       kind: 'ReturnType',
-      ...this.parseType(
-        schemaOrRef,
-        'response',
-        name || operation.operationId?.value || '',
+      ...this.withUsage('output', () =>
+        this.parseType(
+          schemaOrRef,
+          'response',
+          name || this.parseOperationName(operation).value,
+        ),
+      ),
+      meta: this.parseNullableMeta(
+        this.resolveSchema(schemaOrRef),
+        undefined,
+        undefined,
       ),
     };
   }
@@ -1211,7 +2261,7 @@ export class OAS3Parser {
     if (!schemaOrRef) return;
 
     if (OAS3.isRefNode(schemaOrRef)) {
-      return OAS3.resolveSchema(this.schema.node, schemaOrRef);
+      return this.resolveSchema(schemaOrRef);
     } else {
       return schemaOrRef;
     }
@@ -1236,59 +2286,196 @@ export class OAS3Parser {
 
     const types: Type[] = [];
 
-    for (const [name, node, nameLoc, defLoc] of definitions) {
+    for (const [componentName, node, nameLoc, defLoc] of definitions) {
       if (node.nodeType !== 'ObjectSchema') continue;
 
-      if (node.oneOf) {
-        this.parseAsUnion(name, node, node.oneOf, nameLoc);
-      } else {
-        types.push(this.parseAsType(name, node, nameLoc, defLoc));
+      const usages: (Usage | undefined)[] = this.hasReadWriteVariants(node)
+        ? ['input', 'output']
+        : [undefined];
+
+      for (const usage of usages) {
+        this.withUsage(usage, () => {
+          const name = this.parseVariantName(componentName, node);
+
+          if (node.oneOf) {
+            this.parseAsUnion(name, node, node.oneOf, nameLoc);
+          } else if (node.anyOf && this.isAnyOfUnion(node)) {
+            this.parseAsUnion(name, node, node.anyOf, nameLoc, false);
+          } else {
+            types.push(this.parseAsType(name, node, nameLoc, defLoc));
+          }
+        });
       }
     }
 
     return types;
   }
 
+  /** Parses a request or response schema (eg. a parameter or return type) */
+  private withUsage<T>(usage: Usage | undefined, fn: () => T): T {
+    const previous = this.usage;
+    this.usage = usage;
+    try {
+      return fn();
+    } finally {
+      this.usage = previous;
+    }
+  }
+
+  /**
+   * Returns the name of the request or response variant of a component schema
+   * that has `readOnly` or `writeOnly` properties.
+   */
+  private parseVariantName(
+    name: string,
+    schema: OAS3.ObjectSchemaNode,
+  ): string {
+    if (!this.usage || !this.hasReadWriteVariants(schema)) return name;
+
+    return `${name}${this.usage === 'input' ? 'Input' : 'Output'}`;
+  }
+
+  /**
+   * Returns true if the schema is split into request and response variants
+   * because it has `readOnly` or `writeOnly` properties, either directly or
+   * via the schemas that it includes.
+   */
+  private hasReadWriteVariants(
+    schema: OAS3.SchemaNodeUnion,
+    visited: Set<AST.ASTNode> = new Set(),
+  ): boolean {
+    if (!this.splitReadWriteTypes || visited.has(schema.node)) return false;
+
+    const memo = this.readWriteVariants.get(schema.node);
+    if (memo !== undefined) return memo;
+
+    const isRoot = !visited.size;
+    visited.add(schema.node);
+
+    const props: (OAS3.SchemaNodeUnion | OAS3.RefNode)[] = [];
+    const subschemas: (OAS3.SchemaNodeUnion | OAS3.RefNode | undefined)[] = [];
+    if (schema.nodeType === 'ObjectSchema') {
+      const { properties, additionalProperties } = schema;
+      for (const key of properties?.keys || []) {
+        const prop = properties?.read(key);
+        if (prop) props.push(prop);
+      }
+      subschemas.push(
+        ...props,
+        ...(schema.allOf || []),
+        ...(schema.oneOf || []),
+        ...(schema.anyOf || []),
+        OAS3.isLiteral(additionalProperties) ? undefined : additionalProperties,
+      );
+    } else if (schema.nodeType === 'ArraySchema') {
+      subschemas.push(schema.items);
+    }
+
+    const resolve = (subschema: OAS3.SchemaNodeUnion | OAS3.RefNode) =>
+      OAS3.resolveSchema(this.documents, subschema);
+
+    const result =
+      props.some((prop) => {
+        const resolved = resolve(prop);
+        return (
+          resolved?.readOnly?.value === true ||
+          resolved?.writeOnly?.value === true
+        );
+      }) ||
+      subschemas.some((subschema) => {
+        const resolved = subschema && resolve(subschema);
+        return !!resolved && this.hasReadWriteVariants(resolved, visited);
+      });
+
+    // A negative result may be incomplete while a cycle is still being visited
+    if (isRoot || result) {
+      this.readWriteVariants.set(schema.node, result);
+    }
+    return result;
+  }
+
+  /** Returns true if the property is omitted from the current variant */
+  private isOmitted(prop: OAS3.SchemaNodeUnion): boolean {
+    if (!this.splitReadWriteTypes) return false;
+
+    return (
+      (this.usage === 'input' && prop.readOnly?.value === true) ||
+      (this.usage === 'output' && prop.writeOnly?.value === true)
+    );
+  }
+
   private parseAsUnion(
     name: string,
     node: OAS3.ObjectSchemaNode,
-    oneOf: (OAS3.RefNode | OAS3.ObjectSchemaNode)[],
+    oneOf: (OAS3.RefNode | OAS3.SchemaNodeUnion)[],
     nameLoc: string | undefined,
+    exclusive: boolean = true,
   ): void {
-    const members: TypedValue[] = oneOf.map((subDef) =>
-      this.parseType(subDef, name, ''),
+    const members: TypedValue[] = oneOf.map((subDef, i) =>
+      this.parseType(subDef, `${i + 1}`, name),
     );
+    const meta = this.parseUnionMeta(node, exclusive);
 
     if (node.discriminator) {
-      const { propertyName, mapping } = node.discriminator;
+      // Inline unions (eg. in request bodies) may be parsed more than once
+      const report = !this.checkedDiscriminators.has(node.node);
+      this.checkedDiscriminators.add(node.node);
 
-      if (mapping) {
-        this.violations.push({
-          code: 'openapi-3/unsupported-feature',
-          message:
-            'Discriminator mapping is not yet supported and will have no effect.',
-          range: mapping.loc,
-          severity: 'info',
-          sourcePath: this.sourcePath,
-        });
-      }
-
-      // TODO: validate that the discriminator definition is compatable with the referenced types
+      const { propertyName, mapping } = node.discriminator;
+      const values = mapping
+        ? this.parseDiscriminatorMapping(mapping, oneOf, report)
+        : [];
 
       const customTypes: CustomValue[] = [];
-      for (const member of members) {
-        if (member.isPrimitive) {
+      members.forEach((member, i) => {
+        const subDef = oneOf[i];
+        const resolved = this.resolveSchema(subDef);
+
+        if (
+          member.isPrimitive ||
+          member.isArray ||
+          (resolved && resolved.nodeType !== 'ObjectSchema')
+        ) {
+          if (!report) return;
           this.violations.push({
             code: 'openapi-3/misconfigured-discriminator',
-            message: 'Discriminators may not reference primitive types.',
-            range: node.discriminator.loc,
+            message:
+              'Discriminators may only reference object types. This member will be ignored.',
+            range: subDef.loc,
             severity: 'error',
-            sourcePath: this.sourcePath,
+            sourcePath: this.documents.sourcePathOf(subDef.node),
           });
         } else {
           customTypes.push(member);
+          if (resolved && report) {
+            this.validateDiscriminator(
+              propertyName,
+              subDef,
+              resolved,
+              values.filter((v) => v.index === i),
+            );
+          }
         }
-      }
+      });
+
+      const mappedValues = values.filter((v) =>
+        customTypes.includes(members[v.index] as CustomValue),
+      );
+      const mappingMeta: MetaValue | undefined = mappedValues.length
+        ? {
+            key: { value: 'discriminatorMapping' },
+            value: {
+              value: mappedValues.reduce<Record<string, string>>(
+                (acc, v) => ({
+                  ...acc,
+                  [v.key]: members[v.index].typeName.value,
+                }),
+                {},
+              ),
+              loc: range(mapping!),
+            },
+          }
+        : undefined;
 
       const union: Union = {
         kind: 'Union',
@@ -1296,28 +2483,236 @@ export class OAS3Parser {
         discriminator: toScalar(propertyName),
         members: customTypes,
         loc: range(node),
-        meta: this.parseMeta(node),
+        meta: mappingMeta ? [...(meta || []), mappingMeta] : meta,
       };
 
+      this.definitionNodes.set(union, node);
       this.unions.push(union);
     } else {
-      this.unions.push({
+      const union: Union = {
         kind: 'Union',
         name: { value: name, loc: nameLoc },
         members,
         loc: range(node),
-        meta: this.parseMeta(node),
+        meta,
+      };
+
+      this.definitionNodes.set(union, node);
+      this.unions.push(union);
+    }
+  }
+
+  /**
+   * Resolves each discriminator value to the index of the member that it maps
+   * to. Mapping values are either refs or the names of component schemas.
+   */
+  private parseDiscriminatorMapping(
+    mapping: OAS3.StringMappingNode,
+    subDefs: (OAS3.RefNode | OAS3.SchemaNodeUnion)[],
+    report: boolean,
+  ): DiscriminatorValue[] {
+    const targets = subDefs.map(
+      (subDef) => OAS3.resolveSchema(this.documents, subDef)?.node,
+    );
+    const values: DiscriminatorValue[] = [];
+
+    for (const key of mapping.keys) {
+      const target = mapping.read(key);
+      if (!target) continue;
+
+      const ref = new OAS3.RefNode(
+        synthesize(
+          {
+            $ref: /[#/]/.test(target.value)
+              ? (target.node as AST.ValueNode)
+              : `#/components/schemas/${target.value}`,
+          },
+          target.node,
+        ),
+      );
+
+      const resolved = OAS3.resolveSchema(this.documents, ref);
+      if (!resolved) {
+        this.unresolvedRef(ref);
+        continue;
+      }
+
+      const index = targets.indexOf(resolved.node);
+      if (index === -1) {
+        if (!report) continue;
+        this.violations.push({
+          code: 'openapi-3/misconfigured-discriminator',
+          message: `'${target.value}' is not a member of the union. The discriminator value '${key}' will be ignored.`,
+          range: target.loc,
+          severity: 'error',
+          sourcePath: this.documents.sourcePathOf(target.node),
+        });
+      } else {
+        values.push({ key, index, node: target });
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Validates that a union member declares the discriminator property as a
+   * required string and that the values which map to the member are allowed
+   * by that property. Members without an explicit mapping are identified by
+   * the name of the component schema that they reference.
+   */
+  private validateDiscriminator(
+    propertyName: OAS3.LiteralNode<string>,
+    subDef: OAS3.RefNode | OAS3.SchemaNodeUnion,
+    member: OAS3.ObjectSchemaNode,
+    values: DiscriminatorValue[],
+  ): void {
+    const name = propertyName.value;
+    const misconfigured = (
+      message: string,
+      node: DocumentNode,
+      severity: Violation['severity'] = 'error',
+    ) =>
+      this.violations.push({
+        code: 'openapi-3/misconfigured-discriminator',
+        message,
+        range: node.loc,
+        severity,
+        sourcePath: this.documents.sourcePathOf(node.node),
       });
+
+    const prop = this.findProperty(member, name);
+    if (!prop) {
+      misconfigured(
+        `The member does not define the discriminator property '${name}'.`,
+        subDef,
+      );
+      return;
+    }
+
+    if (!prop.required) {
+      misconfigured(
+        `The discriminator property '${name}' must be required.`,
+        prop.schema,
+      );
+    }
+
+    const schema = this.resolveSchema(prop.schema);
+    if (!schema) return;
+
+    if (schema.nodeType !== 'StringSchema') {
+      misconfigured(
+        `The discriminator property '${name}' must be a string.`,
+        prop.schema,
+      );
+      return;
+    }
+
+    const allowed = schema.const ? [schema.const] : schema.enum;
+    if (!allowed) return;
+
+    const implicitName = OAS3.isRefNode(subDef)
+      ? OAS3.refName(subDef.$ref.value)
+      : undefined;
+    const mapped: { value: string; node: DocumentNode }[] = values.length
+      ? values.map((v) => ({ value: v.key, node: v.node }))
+      : implicitName
+      ? [{ value: implicitName, node: subDef }]
+      : [];
+
+    for (const { value, node } of mapped) {
+      if (!allowed.some((a) => a.value === value)) {
+        misconfigured(
+          `The discriminator value '${value}' is not an allowed value of '${name}'.`,
+          node,
+        );
+      }
+    }
+
+    for (const a of allowed) {
+      if (!mapped.some(({ value }) => value === a.value)) {
+        misconfigured(
+          `The discriminator value '${a.value}' does not map to this member.`,
+          a,
+          'warning',
+        );
+      }
     }
   }
 
+  /**
+   * Finds a property of an object schema, including those declared via
+   * `allOf`. The property is required if any of the schemas require it.
+   */
+  private findProperty(
+    node: OAS3.ObjectSchemaNode,
+    name: string,
+    ancestors: AST.ASTNode[] = [],
+  ):
+    | { schema: OAS3.SchemaNodeUnion | OAS3.RefNode; required: boolean }
+    | undefined {
+    const required = !!node.required?.some((r) => r.value === name);
+
+    const schema = node.properties?.read(name);
+    if (schema) return { schema, required };
+
+    for (const subDef of node.allOf || []) {
+      const resolved = this.resolve(subDef, OAS3.ObjectSchemaNode);
+      if ([...ancestors, node.node].includes(resolved.node)) continue;
+
+      const prop = this.findProperty(resolved, name, [...ancestors, node.node]);
+      if (prop) return { ...prop, required: prop.required || required };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Union meta includes `exclusive: false` when a value may match more than one
+   * member (ie. `anyOf` rather than `oneOf`).
+   */
+  private parseUnionMeta(
+    node: OAS3.ObjectSchemaNode,
+    exclusive: boolean,
+  ): Meta | undefined {
+    const meta = this.parseMeta(node);
+    if (exclusive) return meta;
+
+    return [
+      ...(meta || []),
+      { key: { value: 'exclusive' }, value: { value: false } },
+    ];
+  }
+
+  /** Returns true if the `anyOf` of the schema is parsed as a union */
+  private isAnyOfUnion(node: OAS3.ObjectSchemaNode): boolean {
+    const mode = node.anyOfMode;
+    if (!mode) return this.anyOfMode === 'union';
+
+    if (mode.value !== 'union' && mode.value !== 'merge') {
+      if (!this.checkedAnyOfModes.has(mode.node)) {
+        this.checkedAnyOfModes.add(mode.node);
+        this.violations.push({
+          code: 'openapi-3/invalid-extension',
+          message: `Expected 'union' or 'merge'. The default '${this.anyOfMode}' will be used.`,
+          range: mode.loc,
+          severity: 'warning',
+          sourcePath: this.documents.sourcePathOf(mode.node),
+        });
+      }
+      return this.anyOfMode === 'union';
+    }
+
+    return mode.value === 'union';
+  }
+
   private parseAsType(
     name: string,
     node: OAS3.SchemaNodeUnion,
     nameLoc: string | undefined,
     defLoc: string,
   ): Type {
-    return {
+    const type: Type = {
       kind: 'Type',
       name: { value: name, loc: nameLoc },
       description: node.description
@@ -1328,18 +2723,128 @@ export class OAS3Parser {
         : undefined,
       properties:
         node.nodeType === 'ObjectSchema'
-          ? this.parseProperties(
-              node.properties,
-              node.required,
-              node.allOf,
-              name,
-            )
+          ? this.parseObjectProperties(node, name)
           : [],
       deprecated: this.parseDeprecated(node),
       rules: this.parseObjectRules(node),
       loc: defLoc,
-      meta: this.parseMeta(node),
+      meta:
+        node.nodeType === 'ObjectSchema'
+          ? this.parseAdditionalPropertiesMeta(node, name, this.parseMeta(node))
+          : this.parseMeta(node),
     };
+
+    this.definitionNodes.set(type, node);
+    return type;
+  }
+
+  /**
+   * Describes the values of an object with `additionalProperties` so that
+   * generators can model it as a map (eg. `Record<string, Pet>`), with or
+   * without any declared properties.
+   */
+  private parseAdditionalPropertiesMeta(
+    node: OAS3.ObjectSchemaNode,
+    parentName: string,
+    meta: Meta | undefined,
+  ): Meta | undefined {
+    const additionalProperties = node.additionalProperties;
+    if (!additionalProperties) return meta;
+
+    let value: { typeName: string; isPrimitive: boolean; isArray: boolean };
+    if (OAS3.isLiteral(additionalProperties)) {
+      if (additionalProperties.value !== true) return meta;
+      value = { typeName: 'untyped', isPrimitive: true, isArray: false };
+    } else if (
+      additionalProperties.nodeType === 'ObjectSchema' &&
+      !additionalProperties.keys.length
+    ) {
+      value = { typeName: 'untyped', isPrimitive: true, isArray: false };
+    } else {
+      const x = this.parseType(additionalProperties, 'value', parentName);
+      value = {
+        typeName: x.typeName.value,
+        isPrimitive: x.isPrimitive,
+        isArray: x.isArray,
+      };
+    }
+
+    return [
+      ...(meta || []),
+      {
+        key: {
+          value: 'additionalProperties',
+          loc: node.keyRange('additionalProperties'),
+        },
+        value: { value, loc: node.propRange('additionalProperties') },
+      },
+    ];
+  }
+
+  /**
+   * Parses the properties of an object schema, including those of any `anyOf`
+   * members that are merged into it. Merged properties are never required
+   * because a value need only match one of the members.
+   */
+  private parseObjectProperties(
+    node: OAS3.ObjectSchemaNode,
+    parentName: string,
+  ): Property[] {
+    const props = this.parseProperties(
+      node.properties,
+      node.required,
+      node.allOf,
+      parentName,
+      [node.node],
+    );
+    const names = new Set(props.map((prop) => prop.name.value));
+
+    for (const subDef of node.anyOf || []) {
+      const resolved = this.resolveSchema(subDef);
+      if (!resolved) continue;
+
+      if (resolved.nodeType !== 'ObjectSchema') {
+        if (this.checkedMergedMembers.has(subDef.node)) continue;
+        this.checkedMergedMembers.add(subDef.node);
+        this.violations.push({
+          code: 'openapi-3/unsupported-feature',
+          message:
+            'Only object schemas can be merged. This subschema will be ignored.',
+          range: subDef.loc,
+          severity: 'warning',
+          sourcePath: this.documents.sourcePathOf(subDef.node),
+        });
+        continue;
+      }
+
+      if (resolved.node === node.node) {
+        this.circularSchema(
+          subDef,
+          'A schema cannot include itself via anyOf. This subschema will be ignored.',
+        );
+        continue;
+      }
+
+      const merged = this.parseProperties(
+        resolved.properties,
+        undefined,
+        resolved.allOf,
+        parentName,
+        [node.node, resolved.node],
+      );
+
+      for (const prop of merged) {
+        if (names.has(prop.name.value)) continue;
+        names.add(prop.name.value);
+
+        props.push({
+          ...prop,
+          rules: prop.rules.filter((rule) => rule.id !== 'required'),
+        });
+      }
+    }
+
+    return props;
   }
 
   private parseProperties(
@@ -1347,14 +2852,26 @@ export class OAS3Parser {
     required: OAS3.LiteralNode<string>[] | undefined,
     allOf: (OAS3.RefNode | OAS3.ObjectSchemaNode)[] | undefined,
     parentName?: string,
+    ancestors: AST.ASTNode[] = [],
   ): Property[] {
     if (allOf) {
       return allOf
         .map((subDef) => {
           const resolved = this.resolve(subDef, OAS3.ObjectSchemaNode);
+          if (ancestors.includes(resolved.node)) {
+            this.circularSchema(
+              subDef,
+              'A schema cannot include itself via allOf. This subschema will be ignored.',
+            );
+            return [];
+          }
+
           const p = resolved.properties;
           const r = safeConcat(resolved.required, required);
-          return this.parseProperties(p, r, resolved.allOf, parentName);
+          return this.parseProperties(p, r, resolved.allOf, parentName, [
+            ...ancestors,
+            resolved.node,
+          ]);
         })
         .reduce((a, b) => a.concat(b), []);
     } else {
@@ -1365,8 +2882,8 @@ export class OAS3Parser {
         const prop = properties?.read(name);
         if (!prop) continue;
 
-        const resolvedProp = OAS3.resolveSchema(this.schema.node, prop);
-        if (!resolvedProp) throw new Error('Cannot resolve reference');
+        const resolvedProp = this.resolveSchema(prop);
+        if (!resolvedProp || this.isOmitted(resolvedProp)) continue;
 
         const x = this.parseType(prop, name, parentName || '');
         if (x.isPrimitive) {
@@ -1382,7 +2899,11 @@ export class OAS3Parser {
             constant: this.parseConstant(prop, x),
             rules: this.parseRules(resolvedProp, requiredSet.has(name)),
             loc: range(resolvedProp),
-            meta: this.parseMeta(resolvedProp),
+            meta: this.parseNullableMeta(
+              resolvedProp,
+              requiredSet.has(name),
+              this.parseMeta(resolvedProp),
+            ),
           });
         } else {
           props.push({
@@ -1395,7 +2916,11 @@ export class OAS3Parser {
             deprecated: this.parseDeprecated(resolvedProp),
             rules: this.parseRules(resolvedProp, requiredSet.has(name)),
             loc: range(resolvedProp),
-            meta: this.parseMeta(resolvedProp),
+            meta: this.parseNullableMeta(
+              resolvedProp,
+              requiredSet.has(name),
+              this.parseMeta(resolvedProp),
+            ),
           });
         }
       }
@@ -1430,11 +2955,132 @@ export class OAS3Parser {
     itemOrRef: T | OAS3.RefNode,
     Node: new (n: AST.ASTNode) => T,
   ): T {
-    return OAS3.resolve(this.schema.node, itemOrRef, Node);
+    const resolved = OAS3.resolve(this.documents, itemOrRef, Node);
+    if (resolved) return resolved;
+
+    this.unresolvedRef(itemOrRef as OAS3.RefNode);
+    return new Node(new EmptyObject());
+  }
+
+  private resolveParam(
+    paramOrRef: OAS3.ParameterNode | OAS3.RefNode,
+  ): OAS3.ParameterNode | undefined {
+    const resolved = OAS3.resolveParam(this.documents, paramOrRef);
+    if (!resolved) this.unresolvedRef(paramOrRef as OAS3.RefNode);
+    return resolved;
+  }
+
+  private resolveSchema(
+    schemaOrRef: OAS3.SchemaNodeUnion | OAS3.RefNode,
+  ): OAS3.SchemaNodeUnion | undefined {
+    const resolved = OAS3.resolveSchema(this.documents, schemaOrRef);
+    if (!resolved) {
+      this.unresolvedRef(schemaOrRef as OAS3.RefNode);
+      return;
+    }
+
+    return this.dialect === '3.1' && OAS3.isRefNode(schemaOrRef)
+      ? OAS3.applyRefSiblings(this.documents, schemaOrRef, resolved)
+      : resolved;
+  }
+
+  private unresolvedRef(ref: OAS3.RefNode): void {
+    const sourcePath = this.documents.sourcePathOf(ref.node);
+    const loc = range(ref.$ref);
+
+    const key = `${sourcePath}:${loc}`;
+    if (this.unresolvedRefs.has(key)) return;
+    this.unresolvedRefs.add(key);
+
+    const reason = OAS3.refError(this.documents, ref);
+
+    this.violations.push({
+      code: 'openapi-3/unresolvable-ref',
+      message: `Cannot resolve ref '${ref.$ref.value}'. ${reason}`,
+      range: ref.$ref.loc,
+      severity: 'error',
+      sourcePath,
+    });
+  }
+
+  private circularSchema(node: OAS3.DocumentNode, message: string): void {
+    const sourcePath = this.documents.sourcePathOf(node.node);
+    const loc = range(node);
+
+    const key = `${sourcePath}:${loc}`;
+    if (this.circularSchemas.has(key)) return;
+    this.circularSchemas.add(key);
+
+    this.violations.push({
+      code: 'openapi-3/circular-schema',
+      message,
+      range: node.loc,
+      severity: 'error',
+      sourcePath,
+    });
+  }
+
+  /**
+   * Returns the type name for a ref to a named schema. Refs into the primary
+   * document's `#/components/schemas` are defined by `parseDefinitions`; any
+   * other ref that crosses into another document is "external" and named after
+   * the last segment of its pointer or, lacking one, after the file itself.
+   */
+  private parseRefName(ref: OAS3.RefNode): {
+    name: string | undefined;
+    isExternal: boolean;
+  } {
+    const { path } = OAS3.splitRef(ref.$ref.value);
+
+    if (!path && this.documents.isPrimary(ref.node)) {
+      return {
+        name: this.parseComponentName(ref, 'schemas'),
+        isExternal: false,
+      };
+    }
+
+    return { name: OAS3.refName(ref.$ref.value), isExternal: true };
+  }
+
+  /**
+   * Returns the name of the component if the ref points directly to an item
+   * in the given `#/components` group.
+   */
+  private parseComponentName(
+    ref: OAS3.RefNode,
+    group: string,
+  ): string | undefined {
+    const { path, pointer } = OAS3.splitRef(ref.$ref.value);
+    if (path) return;
+
+    const tokens = OAS3.parsePointer(pointer);
+    if (tokens?.length !== 3) return;
+
+    return tokens[0] === 'components' && tokens[1] === group
+      ? tokens[2]
+      : undefined;
+  }
+
+  private parseExternalDefinition(
+    name: Scalar<string>,
+    node: OAS3.ObjectSchemaNode,
+  ): void {
+    if (this.externalNames.has(name.value)) return;
+    this.externalNames.add(name.value);
+
+    if (node.oneOf) {
+      this.parseAsUnion(name.value, node, node.oneOf, name.loc);
+    } else if (node.anyOf && this.isAnyOfUnion(node)) {
+      this.parseAsUnion(name.value, node, node.anyOf, name.loc, false);
+    } else {
+      this.anonymousTypes.push(
+        this.parseAsType(name.value, node, name.loc, range(node)),
+      );
+    }
   }
 
   private parseRules(
-    def: OAS3.SchemaNodeUnion | OAS3.ParameterNode,
+    def: OAS3.SchemaNodeUnion | OAS3.ParameterNode | undefined,
     required?: boolean,
   ): ValidationRule[] {
     const schema = this.parseSchema(def);
@@ -1464,7 +3110,7 @@ export class OAS3Parser {
           ]
         : localRules;
 
-    const itemsSchema = OAS3.resolveSchema(this.schema.node, schema.items);
+    const itemsSchema = this.resolveSchema(schema.items);
     if (!itemsSchema) return [];
 
     const itemRules = this.ruleFactories
@@ -1499,7 +3145,7 @@ export class OAS3Parser {
     if (node.nodeType === 'Parameter') {
       if (!node.schema) return undefined;
 
-      const schema = OAS3.resolveSchema(this.schema.node, node.schema);
+      const schema = this.resolveSchema(node.schema);
 
       if (schema?.nodeType === 'ArraySchema') return schema;
     }
@@ -1514,7 +3160,7 @@ export class OAS3Parser {
     if (node.nodeType !== 'Parameter') return node;
     if (!node.schema) return undefined;
 
-    return OAS3.resolveSchema(this.schema.node, node.schema);
+    return this.resolveSchema(node.schema);
   }
 }
 
@@ -1608,7 +3254,7 @@ const numberGreaterThanFactory: ValidationRuleFactory = (def) => {
   if (OAS3.isNumber(def) && typeof def.minimum?.value === 'number') {
     return {
       kind: 'ValidationRule',
-      id: def.exclusiveMinimum?.value ? 'number-gt' : 'number-gte',
+      id: def.exclusiveMinimum?.value === true ? 'number-gt' : 'number-gte',
       value: { value: def.minimum.value, loc: range(def.minimum) },
       loc: def.propRange('minimum')!,
     };
@@ -1621,7 +3267,7 @@ const numberLessThanFactory: ValidationRuleFactory = (def) => {
   if (OAS3.isNumber(def) && typeof def.maximum?.value === 'number') {
     return {
       kind: 'ValidationRule',
-      id: def.exclusiveMinimum?.value ? 'number-lt' : 'number-lte',
+      id: def.exclusiveMaximum?.value === true ? 'number-lt' : 'number-lte',
       value: { value: def.maximum.value, loc: range(def.maximum) },
       loc: def.propRange('maximum')!,
     };
@@ -1630,6 +3276,38 @@ const numberLessThanFactory: ValidationRuleFactory = (def) => {
   }
 };
 
+const numberExclusiveMinimumFactory: ValidationRuleFactory = (def) => {
+  if (OAS3.isNumber(def) && typeof def.exclusiveMinimum?.value === 'number') {
+    return {
+      kind: 'ValidationRule',
+      id: 'number-gt',
+      value: {
+        value: def.exclusiveMinimum.value,
+        loc: range(def.exclusiveMinimum),
+      },
+      loc: def.propRange('exclusiveMinimum')!,
+    };
+  } else {
+    return;
+  }
+};
+
+const numberExclusiveMaximumFactory: ValidationRuleFactory = (def) => {
+  if (OAS3.isNumber(def) && typeof def.exclusiveMaximum?.value === 'number') {
+    return {
+      kind: 'ValidationRule',
+      id: 'number-lt',
+      value: {
+        value: def.exclusiveMaximum.value,
+        loc: range(def.exclusiveMaximum),
+      },
+      loc: def.propRange('exclusiveMaximum')!,
+    };
+  } else {
+    return;
+  }
+};
+
 const arrayMinItemsFactory: ValidationRuleFactory = (def) => {
   if (OAS3.isArray(def) && typeof def.minItems?.value === 'number') {
     return {
@@ -1729,6 +3407,8 @@ const factories = [
   numberMultipleOfFactory,
   numberGreaterThanFactory,
   numberLessThanFactory,
+  numberExclusiveMinimumFactory,
+  numberExclusiveMaximumFactory,
   arrayMaxItemsFactory,
   arrayMinItemsFactory,
   arrayUniqueItemsFactory,
@@ -1740,6 +3420,24 @@ const objectFactories = [
   objectAdditionalPropertiesFactory,
 ];
 
+/**
+ * The JSON Schema dialect of the schemas in a document. OAS 3.1 adopts JSON
+ * Schema 2020-12; earlier versions use an extended subset of draft 5.
+ */
+type Dialect = '3.0' | '3.1';
+
+/** The top-level maps of path items from which operations are parsed */
+type OperationSource = 'paths' | 'webhooks';
+
+function parseDialect(version: string | undefined): Dialect {
+  const semver = coerce(version);
+  if (!semver) return '3.0';
+
+  return semver.major > 3 || (semver.major === 3 && semver.minor >= 1)
+    ? '3.1'
+    : '3.0';
+}
+
 function safeConcat<T>(
   a: T[] | undefined,
   b: T[] | undefined,
@@ -1773,9 +3471,10 @@ function literal<
   };
 }
 
-class EmptyObject implements AST.ASTNode {
-  public readonly type: AST.NodeType = 'Object';
+class EmptyObject implements AST.ObjectNode {
+  public readonly type = 'Object';
   public readonly loc = decodeRange(null);
+  public readonly children: AST.PropertyNode[] = [];
   isObject(): this is AST.ObjectNode {
     return true;
   }
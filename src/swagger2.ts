@@ -0,0 +1,808 @@
+import { AST } from '@basketry/ast';
+import { Violation } from 'basketry';
+
+import {
+  synthesize,
+  synthesizeObject,
+  synthesizeProperty,
+  Synthetic,
+} from './nodes';
+
+/** Returns true if the node is the root of a Swagger 2.0 document. */
+export function isSwagger2(root: AST.ASTNode): boolean {
+  const swagger = child(root, 'swagger');
+  return !!swagger?.isLiteral() && `${swagger.value}`.startsWith('2.');
+}
+
+/**
+ * Upgrades a Swagger 2.0 document to the shape of an OpenAPI 3.0 document so
+ * that it can be parsed like any other. Existing nodes are reused wherever
+ * possible and new nodes are located at the 2.0 nodes from which they are
+ * derived. Constructs that can't be upgraded are reported as violations.
+ */
+export function upgrade(
+  root: AST.ASTNode,
+  sourcePath: string,
+): { root: AST.ASTNode; violations: Violation[] } {
+  const upgrader = new Swagger2Upgrader(root, sourcePath);
+
+  return { root: upgrader.upgrade(), violations: upgrader.violations };
+}
+
+/**
+ * Points a local ref to a top-level Swagger 2.0 collection at its OpenAPI 3
+ * component (eg. `#/definitions/Pet` to `#/components/schemas/Pet`). Other
+ * refs are returned as-is.
+ */
+export function upgradeRef(ref: string): string {
+  const prefix = Object.keys(refPrefixes).find((p) => ref.startsWith(p));
+  return prefix ? `${refPrefixes[prefix]}${ref.substring(prefix.length)}` : ref;
+}
+
+const verbs = new Set([
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+]);
+
+/** The keywords of a non-body parameter that describe its value */
+const schemaKeywords = new Set([
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+]);
+
+/** The OpenAPI 3 names of Swagger 2.0 OAuth2 flows */
+const flowNames: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+/** The OpenAPI 3 locations of the top-level Swagger 2.0 collections */
+const refPrefixes: Record<string, string> = {
+  '#/definitions/': '#/components/schemas/',
+  '#/parameters/': '#/components/parameters/',
+  '#/responses/': '#/components/responses/',
+};
+
+type Parameters = {
+  /** Parameters that are still parameters in OpenAPI 3 */
+  other: AST.ValueNode[];
+  body?: AST.ObjectNode;
+  form: AST.ObjectNode[];
+};
+
+class Swagger2Upgrader {
+  constructor(
+    private readonly root: AST.ASTNode,
+    private readonly sourcePath: string,
+  ) {}
+
+  public readonly violations: Violation[] = [];
+
+  upgrade(): AST.ASTNode {
+    const { root } = this;
+    if (!root.isObject()) return root;
+
+    const children: AST.PropertyNode[] = [];
+
+    for (const prop of root.children) {
+      switch (prop.key.value) {
+        case 'swagger':
+          children.push(synthesizeProperty('openapi', '3.0.3', prop));
+          break;
+        case 'paths':
+          children.push(
+            synthesizeProperty(
+              prop.key,
+              this.mapValues(prop.value, (value) => this.pathItem(value)),
+              prop,
+            ),
+          );
+          break;
+        case 'host':
+        case 'basePath':
+        case 'schemes':
+        case 'consumes':
+        case 'produces':
+        case 'definitions':
+        case 'parameters':
+        case 'responses':
+        case 'securityDefinitions':
+          break;
+        default:
+          children.push(prop);
+      }
+    }
+
+    return synthesizeObject(
+      [...children, ...this.servers(root), ...this.components(root)],
+      root,
+    );
+  }
+
+  private servers(root: AST.ObjectNode): AST.PropertyNode[] {
+    const host = property(root, 'host');
+    const basePath = property(root, 'basePath');
+    if (!host && !basePath) return [];
+
+    const path = `${literal(basePath?.value) ?? ''}`;
+    const schemes = strings(child(root, 'schemes'));
+
+    const urls = host
+      ? (schemes.length ? schemes : ['https']).map(
+          (scheme) => `${scheme}://${literal(host.value)}${path}`,
+        )
+      : [path || '/'];
+
+    return [
+      synthesizeProperty(
+        'servers',
+        urls.map((url) => ({ url })),
+        host || basePath!,
+      ),
+    ];
+  }
+
+  private components(root: AST.ObjectNode): AST.PropertyNode[] {
+    const groups: AST.PropertyNode[] = [];
+
+    const definitions = property(root, 'definitions');
+    if (definitions) {
+      groups.push(
+        synthesizeProperty(
+          'schemas',
+          this.mapValues(definitions.value, (value) => this.schema(value)),
+          definitions,
+        ),
+      );
+    }
+
+    // Body and form parameters become request bodies wherever they are used
+    const parameters = property(root, 'parameters');
+    if (parameters) {
+      groups.push(
+        synthesizeProperty(
+          'parameters',
+          this.mapValues(parameters.value, (value) => {
+            const location = literal(child(value, 'in'));
+            if (location === 'body' || location === 'formData') return;
+            return this.parameter(value);
+          }),
+          parameters,
+        ),
+      );
+    }
+
+    const responses = property(root, 'responses');
+    if (responses) {
+      const produces = this.mediaTypes(undefined, 'produces');
+      groups.push(
+        synthesizeProperty(
+          'responses',
+          this.mapValues(responses.value, (value) =>
+            this.response(value, produces),
+          ),
+          responses,
+        ),
+      );
+    }
+
+    const securityDefinitions = property(root, 'securityDefinitions');
+    if (securityDefinitions) {
+      groups.push(
+        synthesizeProperty(
+          'securitySchemes',
+          this.mapValues(securityDefinitions.value, (value) =>
+            this.securityScheme(value),
+          ),
+          securityDefinitions,
+        ),
+      );
+    }
+
+    if (!groups.length) return [];
+
+    return [
+      synthesizeProperty('components', synthesizeObject(groups, root), root),
+    ];
+  }
+
+  private pathItem(node: AST.ValueNode): AST.ValueNode {
+    if (!node.isObject()) return node;
+    if (isRef(node)) return this.ref(node);
+
+    const common = this.parameters(child(node, 'parameters'));
+
+    const children = node.children
+      .map((prop) => {
+        if (prop.key.value === 'parameters') {
+          return common.other.length
+            ? synthesizeProperty(prop.key, common.other, prop)
+            : undefined;
+        } else if (verbs.has(prop.key.value)) {
+          return synthesizeProperty(
+            prop.key,
+            this.operation(prop.value, common),
+            prop,
+          );
+        } else {
+          return prop;
+        }
+      })
+      .filter((prop): prop is AST.PropertyNode => !!prop);
+
+    return synthesizeObject(children, node);
+  }
+
+  private operation(node: AST.ValueNode, common: Parameters): AST.ValueNode {
+    if (!node.isObject()) return node;
+
+    const parameters = this.parameters(child(node, 'parameters'));
+    const consumes = this.mediaTypes(node, 'consumes');
+    const produces = this.mediaTypes(node, 'produces');
+
+    // Operation parameters override path parameters with the same name
+    const body = parameters.body || common.body;
+    const form = [
+      ...common.form.filter(
+        (param) =>
+          !parameters.form.some(
+            (p) => literal(child(p, 'name')) === literal(child(param, 'name')),
+          ),
+      ),
+      ...parameters.form,
+    ];
+
+    const children: AST.PropertyNode[] = [];
+
+    for (const prop of node.children) {
+      switch (prop.key.value) {
+        case 'parameters':
+          if (parameters.other.length) {
+            children.push(synthesizeProperty(prop.key, parameters.other, prop));
+          }
+          break;
+        case 'responses':
+          children.push(
+            synthesizeProperty(
+              prop.key,
+              this.mapValues(prop.value, (value) =>
+                this.response(value, produces),
+              ),
+              prop,
+            ),
+          );
+          break;
+        case 'consumes':
+        case 'produces':
+        case 'schemes':
+          break;
+        default:
+          children.push(prop);
+      }
+    }
+
+    if (body) {
+      if (form.length) {
+        this.violation(
+          form[0],
+          'An operation cannot have both body and form parameters. The form parameters will be ignored.',
+        );
+      }
+
+      children.push(
+        synthesizeProperty(
+          'requestBody',
+          this.requestBody(body, consumes),
+          body,
+        ),
+      );
+
+      // Keeps the name of the body parameter
+      const name = property(body, 'name');
+      if (name && !property(node, 'x-codegen-request-body-name')) {
+        children.push(
+          synthesizeProperty('x-codegen-request-body-name', name.value, name),
+        );
+      }
+    } else if (form.length) {
+      children.push(
+        synthesizeProperty(
+          'requestBody',
+          this.formBody(form, consumes),
+          form[0],
+        ),
+      );
+    }
+
+    return synthesizeObject(children, node);
+  }
+
+  private parameters(node: AST.ValueNode | undefined): Parameters {
+    const parameters: Parameters = { other: [], form: [] };
+    if (!node?.isArray()) return parameters;
+
+    for (const item of node.children) {
+      const param = this.resolveParameter(item);
+      const location = literal(child(param, 'in'));
+
+      if (param.isObject() && location === 'body') {
+        parameters.body = param;
+      } else if (param.isObject() && location === 'formData') {
+        parameters.form.push(param);
+      } else {
+        parameters.other.push(this.parameter(item));
+      }
+    }
+
+    return parameters;
+  }
+
+  /** Returns the parameter to which a local ref points */
+  private resolveParameter(node: AST.ValueNode): AST.ValueNode {
+    const ref = literal(child(node, '$ref'));
+    const prefix = '#/parameters/';
+    if (typeof ref !== 'string' || !ref.startsWith(prefix)) return node;
+
+    const name = decodeURIComponent(ref.substring(prefix.length))
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+
+    return child(child(this.root, 'parameters'), name) || node;
+  }
+
+  private parameter(node: AST.ValueNode): AST.ValueNode {
+    if (!node.isObject()) return node;
+    if (isRef(node)) return this.ref(node);
+
+    const location = literal(child(node, 'in'));
+
+    return synthesizeObject(
+      [
+        ...node.children.filter(
+          (prop) =>
+            !schemaKeywords.has(prop.key.value) &&
+            prop.key.value !== 'collectionFormat',
+        ),
+        synthesizeProperty('schema', this.parameterSchema(node), node),
+        ...this.style(node, `${location}`),
+      ],
+      node,
+    );
+  }
+
+  /** Returns the schema described by the keywords of a non-body parameter */
+  private parameterSchema(node: AST.ObjectNode): AST.ValueNode {
+    const children: AST.PropertyNode[] = [];
+
+    for (const prop of node.children) {
+      const { key, value } = prop;
+      if (!schemaKeywords.has(key.value)) continue;
+
+      if (key.value === 'items' && value.isObject()) {
+        const format = property(value, 'collectionFormat');
+        if (format && literal(format.value) !== 'csv') {
+          this.violation(
+            format.value,
+            `Collection format '${literal(
+              format.value,
+            )}' cannot be converted for nested arrays. The 'csv' format will be used instead.`,
+          );
+        }
+        children.push(
+          synthesizeProperty(key, this.parameterSchema(value), prop),
+        );
+      } else if (key.value === 'type' && literal(value) === 'file') {
+        children.push(...this.fileType(prop, node));
+      } else {
+        children.push(prop);
+      }
+    }
+
+    return synthesizeObject(children, node);
+  }
+
+  /** Returns the `style` and `explode` keywords for a collection format */
+  private style(node: AST.ObjectNode, location: string): AST.PropertyNode[] {
+    if (literal(child(node, 'type')) !== 'array') return [];
+
+    const format = child(node, 'collectionFormat');
+    const value = format ? literal(format) : 'csv';
+    const from = format || node;
+
+    const style = (name: string, explode: boolean) => [
+      synthesizeProperty('style', name, from),
+      synthesizeProperty('explode', explode, from),
+    ];
+
+    if (location === 'query') {
+      switch (value) {
+        case 'csv':
+          return style('form', false);
+        case 'ssv':
+          return style('spaceDelimited', false);
+        case 'pipes':
+          return style('pipeDelimited', false);
+        case 'multi':
+          return style('form', true);
+      }
+    } else if (value === 'csv') {
+      return [];
+    }
+
+    this.violation(
+      from,
+      `Collection format '${value}' cannot be converted for ${location} parameters. The 'csv' format will be used instead.`,
+    );
+
+    return location === 'query' ? style('form', false) : [];
+  }
+
+  private requestBody(body: AST.ObjectNode, consumes: string[]): Synthetic {
+    const schema = child(body, 'schema');
+    const converted = schema && this.schema(schema);
+
+    return {
+      description: child(body, 'description'),
+      required: child(body, 'required'),
+      content: synthesizeObject(
+        consumes.map((mediaType) =>
+          synthesizeProperty(mediaType, { schema: converted }, schema || body),
+        ),
+        body,
+      ),
+    };
+  }
+
+  private formBody(form: AST.ObjectNode[], consumes: string[]): Synthetic {
+    const hasFiles = form.some(
+      (param) => literal(child(param, 'type')) === 'file',
+    );
+    const mediaType =
+      consumes.find(
+        (type) =>
+          type === 'multipart/form-data' ||
+          type === 'application/x-www-form-urlencoded',
+      ) ||
+      (hasFiles ? 'multipart/form-data' : 'application/x-www-form-urlencoded');
+
+    const required = form
+      .filter((param) => literal(child(param, 'required')) === true)
+      .map((param) => child(param, 'name')!);
+
+    const properties = form.map((param) => {
+      const schema = this.parameterSchema(param);
+      const description = property(param, 'description');
+
+      return synthesizeProperty(
+        `${literal(child(param, 'name'))}`,
+        description && schema.isObject()
+          ? synthesizeObject([...schema.children, description], schema)
+          : schema,
+        param,
+      );
+    });
+
+    return {
+      required: required.length ? true : undefined,
+      content: {
+        [mediaType]: {
+          schema: {
+            type: 'object',
+            properties: synthesizeObject(properties, form[0]),
+            required: required.length ? required : undefined,
+          },
+        },
+      },
+    };
+  }
+
+  private response(node: AST.ValueNode, produces: string[]): AST.ValueNode {
+    if (!node.isObject()) return node;
+    if (isRef(node)) return this.ref(node);
+
+    const children: AST.PropertyNode[] = [];
+
+    for (const prop of node.children) {
+      switch (prop.key.value) {
+        case 'schema': {
+          const schema = this.schema(prop.value);
+          const examples = child(node, 'examples');
+
+          children.push(
+            synthesizeProperty(
+              'content',
+              synthesizeObject(
+                produces.map((mediaType) =>
+                  synthesizeProperty(
+                    mediaType,
+                    { schema, example: child(examples, mediaType) },
+                    prop,
+                  ),
+                ),
+                prop,
+              ),
+              prop,
+            ),
+          );
+          break;
+        }
+        case 'examples':
+          break;
+        case 'headers':
+          children.push(
+            synthesizeProperty(
+              prop.key,
+              this.mapValues(prop.value, (value) => this.header(value)),
+              prop,
+            ),
+          );
+          break;
+        default:
+          children.push(prop);
+      }
+    }
+
+    return synthesizeObject(children, node);
+  }
+
+  private header(node: AST.ValueNode): AST.ValueNode {
+    if (!node.isObject()) return node;
+
+    return synthesizeObject(
+      [
+        ...node.children.filter(
+          (prop) =>
+            !schemaKeywords.has(prop.key.value) &&
+            prop.key.value !== 'collectionFormat',
+        ),
+        synthesizeProperty('schema', this.parameterSchema(node), node),
+      ],
+      node,
+    );
+  }
+
+  private securityScheme(node: AST.ValueNode): AST.ValueNode | undefined {
+    if (!node.isObject()) return node;
+
+    const type = property(node, 'type');
+    const common = node.children.filter(
+      (prop) =>
+        prop.key.value === 'description' || prop.key.value.startsWith('x-'),
+    );
+
+    switch (literal(type?.value)) {
+      case 'apiKey':
+        return node;
+      case 'basic':
+        return synthesizeObject(
+          [
+            synthesizeProperty(
+              type!.key,
+              synthesize('http', type!.value),
+              type!,
+            ),
+            synthesizeProperty('scheme', 'basic', type!),
+            ...common,
+          ],
+          node,
+        );
+      case 'oauth2': {
+        const flow = property(node, 'flow');
+        const flowName = flowNames[`${literal(flow?.value)}`];
+        if (!flow || !flowName) break;
+
+        return synthesizeObject(
+          [
+            type!,
+            ...common,
+            synthesizeProperty(
+              'flows',
+              {
+                [flowName]: {
+                  authorizationUrl: child(node, 'authorizationUrl'),
+                  tokenUrl: child(node, 'tokenUrl'),
+                  scopes: child(node, 'scopes') || {},
+                },
+              },
+              flow,
+            ),
+          ],
+          node,
+        );
+      }
+    }
+
+    this.violation(
+      property(node, 'flow')?.value || type?.value || node,
+      'Security definition cannot be converted. This definition will be ignored.',
+    );
+    return;
+  }
+
+  private schema(node: AST.ValueNode): AST.ValueNode {
+    if (!node.isObject()) return node;
+    if (isRef(node)) return this.ref(node);
+
+    const children: AST.PropertyNode[] = [];
+
+    for (const prop of node.children) {
+      const { key, value } = prop;
+
+      switch (key.value) {
+        case 'properties':
+          children.push(
+            synthesizeProperty(
+              key,
+              this.mapValues(value, (v) => this.schema(v)),
+              prop,
+            ),
+          );
+          break;
+        case 'items':
+        case 'additionalProperties':
+        case 'not':
+          children.push(synthesizeProperty(key, this.schema(value), prop));
+          break;
+        case 'allOf':
+        case 'anyOf':
+        case 'oneOf':
+          children.push(
+            value.isArray()
+              ? synthesizeProperty(
+                  key,
+                  value.children.map((item) => this.schema(item)),
+                  prop,
+                )
+              : prop,
+          );
+          break;
+        case 'discriminator':
+          // The discriminator is just the name of a property in Swagger 2.0
+          children.push(
+            value.isLiteral()
+              ? synthesizeProperty(key, { propertyName: value }, prop)
+              : prop,
+          );
+          break;
+        case 'x-nullable':
+          children.push(synthesizeProperty('nullable', value, prop));
+          break;
+        case 'type':
+          if (literal(value) === 'file') {
+            children.push(...this.fileType(prop, node));
+          } else {
+            children.push(prop);
+          }
+          break;
+        default:
+          children.push(prop);
+      }
+    }
+
+    return synthesizeObject(children, node);
+  }
+
+  /** Files are binary strings in OpenAPI 3 */
+  private fileType(
+    type: AST.PropertyNode,
+    node: AST.ObjectNode,
+  ): AST.PropertyNode[] {
+    return [
+      synthesizeProperty(type.key, synthesize('string', type.value), type),
+      ...(property(node, 'format')
+        ? []
+        : [synthesizeProperty('format', 'binary', type)]),
+    ];
+  }
+
+  /** Points local refs to top-level collections at their new components */
+  private ref(node: AST.ObjectNode): AST.ObjectNode {
+    return synthesizeObject(
+      node.children.map((prop) => {
+        const ref = literal(prop.value);
+        if (prop.key.value !== '$ref' || typeof ref !== 'string') return prop;
+
+        const upgraded = upgradeRef(ref);
+        if (upgraded === ref) return prop;
+
+        return synthesizeProperty(
+          prop.key,
+          synthesize(upgraded, prop.value),
+          prop,
+        );
+      }),
+      node,
+    );
+  }
+
+  private mediaTypes(
+    operation: AST.ASTNode | undefined,
+    key: 'consumes' | 'produces',
+  ): string[] {
+    const local = strings(child(operation, key));
+    if (local.length) return local;
+
+    const global = strings(child(this.root, key));
+    return global.length ? global : ['application/json'];
+  }
+
+  /** Maps the values of an object, keeping its keys and any extensions */
+  private mapValues(
+    node: AST.ValueNode,
+    fn: (value: AST.ValueNode) => AST.ValueNode | undefined,
+  ): AST.ValueNode {
+    if (!node.isObject()) return node;
+
+    const children = node.children
+      .map((prop) => {
+        if (prop.key.value.startsWith('x-')) return prop;
+
+        const value = fn(prop.value);
+        return value && synthesizeProperty(prop.key, value, prop);
+      })
+      .filter((prop): prop is AST.PropertyNode => !!prop);
+
+    return synthesizeObject(children, node);
+  }
+
+  private violation(node: AST.ASTNode, message: string): void {
+    this.violations.push({
+      code: 'openapi-3/swagger-2-conversion',
+      message,
+      range: node.loc,
+      severity: 'warning',
+      sourcePath: this.sourcePath,
+    });
+  }
+}
+
+function property(
+  node: AST.ASTNode | undefined,
+  key: string,
+): AST.PropertyNode | undefined {
+  return node?.isObject()
+    ? node.children.find((prop) => prop.key.value === key)
+    : undefined;
+}
+
+function child(
+  node: AST.ASTNode | undefined,
+  key: string,
+): AST.ValueNode | undefined {
+  return property(node, key)?.value;
+}
+
+function literal(
+  node: AST.ASTNode | undefined,
+): string | number | boolean | null | undefined {
+  return node?.isLiteral() ? node.value : undefined;
+}
+
+function strings(node: AST.ASTNode | undefined): string[] {
+  return node?.isArray() ? node.children.map((item) => `${literal(item)}`) : [];
+}
+
+function isRef(node: AST.ObjectNode): boolean {
+  return !!property(node, '$ref');
+}
@@ -1,77 +1,185 @@
-import { encodeRange } from 'basketry';
+import { encodeRange, Range } from 'basketry';
 import {
   AST,
   DocumentNode as AbstractDocumentNode,
   LiteralNode,
 } from '@basketry/ast';
+import { basename, extname } from 'path';
+
+import { DocumentSet } from './documents';
+import { upgradeRef } from './swagger2';
 
 export { LiteralNode };
 
-export function refRange(root: AST.ASTNode, ref: string): string {
-  if (!ref.startsWith('#')) throw new Error(`Cannot resolve ref '${ref}'`);
+/**
+ * Splits a ref into the path of the document that it references (if any) and
+ * the JSON Pointer within that document.
+ */
+export function splitRef(ref: string): {
+  path: string | undefined;
+  pointer: string;
+} {
+  const index = ref.indexOf('#');
+  const path = index === -1 ? ref : ref.substring(0, index);
+  const pointer = index === -1 ? '' : ref.substring(index + 1);
+
+  return { path: path || undefined, pointer };
+}
+
+/**
+ * Parses a JSON Pointer (RFC 6901) from a URI fragment into its reference
+ * tokens. The fragment is percent-decoded and `~1` and `~0` are unescaped to
+ * `/` and `~`. Returns `undefined` if the fragment is not a valid pointer.
+ */
+export function parsePointer(pointer: string): string[] | undefined {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pointer);
+  } catch {
+    return;
+  }
 
-  let node: AST.ASTNode = root;
+  if (!decoded) return [];
+  if (!decoded.startsWith('/')) return;
+
+  return decoded
+    .split('/')
+    .slice(1)
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/** Formats reference tokens as a JSON Pointer URI fragment (eg. `#/a~1b`). */
+export function formatPointer(tokens: string[]): string {
+  return `#${tokens
+    .map((token) => token.replace(/~/g, '~0').replace(/\//g, '~1'))
+    .map((token) => `/${encodeURIComponent(token)}`)
+    .join('')}`;
+}
+
+/**
+ * Returns the name implied by a ref: the last token of its pointer or,
+ * lacking one, the name of the referenced file.
+ */
+export function refName(ref: string): string | undefined {
+  const { path, pointer } = splitRef(ref);
+
+  const tokens = parsePointer(pointer);
+  if (tokens?.length) return tokens[tokens.length - 1] || undefined;
 
-  let result: string = encodeRange(node.loc);
+  return path ? basename(path, extname(path)) || undefined : undefined;
+}
+
+type LookupResult =
+  | { node: AST.ASTNode; loc: Range; error?: undefined }
+  | { error: string };
+
+function lookup(documents: DocumentSet, ref: RefNode): LookupResult {
+  const { path, pointer } = splitRef(ref.$ref.value);
+
+  const root = path
+    ? documents.load(path, ref.node)
+    : documents.rootOf(ref.node);
+  if (!root) return { error: `Cannot load '${path}'.` };
+
+  // Refs into other Swagger 2.0 documents point at their 2.0 collections
+  const tokens = parsePointer(
+    path && documents.isUpgraded(root)
+      ? upgradeRef(`#${pointer}`).substring(1)
+      : pointer,
+  );
+  if (!tokens) return { error: `'${pointer}' is not a valid JSON Pointer.` };
 
-  for (const segment of ref.split('/')) {
-    if (segment === '#') {
-      node = root;
+  let node: AST.ASTNode = root;
+  let loc: Range = root.loc;
+
+  for (const token of tokens) {
+    if (node.isObject()) {
+      const child = node.children.find((n) => n.key.value === token);
+      if (!child) return { error: `Cannot find '${token}'.` };
+
+      node = child.value;
+      loc = child.key.loc;
+    } else if (node.isArray()) {
+      const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+      const child = node.children[index];
+      if (!child) return { error: `Cannot find array index '${token}'.` };
+
+      node = child;
+      loc = child.loc;
     } else {
-      if (node.isObject()) {
-        const child = node.children.find((n) => n.key.value === segment);
-        if (!child) throw new Error(`Cannot resolve ref '${ref}'`);
-        node = child.value;
-        result = encodeRange(child.key.loc);
-      } else {
-        throw new Error(`Cannot resolve ref '${ref}'`);
-      }
+      return { error: `Cannot find '${token}' in a literal value.` };
     }
   }
 
-  return result;
+  return { node, loc };
 }
 
-export function resolveRef(root: AST.ASTNode, ref: string): AST.ASTNode {
-  if (!ref.startsWith('#')) throw new Error(`Cannot resolve ref '${ref}'`);
+/** Follows a ref, as well as any refs that point to other refs. */
+function follow(documents: DocumentSet, ref: RefNode): LookupResult {
+  const visited = new Set<AST.ASTNode>();
+  let current = ref;
 
-  let result: AST.ASTNode = root;
+  while (true) {
+    const target = lookup(documents, current);
+    if (target.error !== undefined || !isRef(target.node)) return target;
 
-  for (const segment of ref.split('/')) {
-    if (segment === '#') {
-      result = root;
-    } else {
-      if (result.isObject()) {
-        const child = result.children.find((n) => n.key.value === segment);
-        if (!child) throw new Error(`Cannot resolve ref '${ref}'`);
-        result = child.value;
-      } else {
-        throw new Error(`Cannot resolve ref '${ref}'`);
-      }
-    }
+    if (visited.has(target.node)) return { error: 'The ref is circular.' };
+    visited.add(target.node);
+
+    current = new RefNode(target.node);
   }
+}
+
+export function refRange(
+  documents: DocumentSet,
+  ref: RefNode,
+): string | undefined {
+  const target = lookup(documents, ref);
+  return target.error === undefined ? encodeRange(target.loc) : undefined;
+}
 
-  return result;
+/**
+ * Returns the node referenced by the ref, following any refs that point to
+ * other refs. Returns `undefined` if the ref cannot be resolved.
+ */
+export function resolveRef(
+  documents: DocumentSet,
+  ref: RefNode,
+): AST.ASTNode | undefined {
+  const target = follow(documents, ref);
+  return target.error === undefined ? target.node : undefined;
+}
+
+/**
+ * Returns the reason that the ref cannot be resolved or `undefined` if it
+ * can be.
+ */
+export function refError(
+  documents: DocumentSet,
+  ref: RefNode,
+): string | undefined {
+  return follow(documents, ref).error;
 }
 
 export function resolve<T extends DocumentNode>(
-  root: AST.ASTNode,
+  documents: DocumentSet,
   itemOrRef: T | RefNode,
   Node: new (n: AST.ASTNode) => T,
-): T {
-  return isRefNode(itemOrRef)
-    ? new Node(resolveRef(root, itemOrRef.$ref.value))
-    : itemOrRef;
+): T | undefined {
+  if (!isRefNode(itemOrRef)) return itemOrRef;
+
+  const node = resolveRef(documents, itemOrRef);
+  return node ? new Node(node) : undefined;
 }
 
 export function resolveParam(
-  root: AST.ASTNode,
+  documents: DocumentSet,
   paramOrRef: RefNode | ParameterNode,
 ): ParameterNode | undefined {
   if (!isRefNode(paramOrRef)) return paramOrRef;
 
-  const node = resolveRef(root, paramOrRef.$ref.value);
-  if (!node.isObject()) return;
+  const node = resolveRef(documents, paramOrRef);
+  if (!node?.isObject()) return;
 
   return new ParameterNode(node);
 }
@@ -80,8 +188,10 @@ export type SchemaNodeUnion =
   | StringSchemaNode
   | NumberSchemaNode
   | BooleanSchemaNode
+  | NullSchemaNode
   | ArraySchemaNode
-  | ObjectSchemaNode;
+  | ObjectSchemaNode
+  | BooleanSubschemaNode;
 
 export type SecuritySchemeNode =
   | HttpSecuritySchemeNode
@@ -90,53 +200,50 @@ export type SecuritySchemeNode =
   | OpenIdConnectSecuritySchemeNode;
 
 export function resolveSchema(
-  root: AST.ASTNode,
+  documents: DocumentSet,
   schemaOrRef: RefNode | SchemaNodeUnion,
 ): SchemaNodeUnion | undefined {
   if (!isRefNode(schemaOrRef)) return schemaOrRef;
 
-  const node = resolveRef(root, schemaOrRef.$ref.value);
-  if (!node.isObject()) return;
+  const node = resolveRef(documents, schemaOrRef);
+  if (!node?.isObject()) return;
 
-  const typeNode = node.children.find((n) => n.key.value === 'type')?.value;
-  if (!typeNode) {
-    // Probably an allOf, anyOf, or oneOf
-    return new ObjectSchemaNode(node);
-  }
-
-  if (!typeNode?.isLiteral()) return;
+  return toSchema(node);
+}
 
-  switch (typeNode.value) {
-    case 'string':
-      return new StringSchemaNode(node);
-    case 'integer':
-    case 'number':
-      return new NumberSchemaNode(node);
-    case 'boolean':
-      return new BooleanSchemaNode(node);
-    case 'array':
-      return new ArraySchemaNode(node);
-    case 'object':
-      return new ObjectSchemaNode(node);
-    default:
-      return;
+/**
+ * Returns the schema with the sibling keywords of the ref applied over it.
+ * OAS 3.1 schemas may have keywords alongside a `$ref`; in OAS 3.0 they are
+ * ignored.
+ */
+export function applyRefSiblings(
+  documents: DocumentSet,
+  ref: RefNode,
+  schema: SchemaNodeUnion,
+): SchemaNodeUnion {
+  const { node } = ref;
+  if (!node.isObject() || !schema.node.isObject()) return schema;
+  if (node.children.every((child) => child.key.value === '$ref')) {
+    return schema;
   }
+
+  return toSchema(documents.overlay(node, schema.node)) || schema;
 }
 
 export function resolveParamOrSchema(
-  root: AST.ASTNode,
+  documents: DocumentSet,
   itemOrRef: RefNode | ParameterNode | SchemaNodeUnion,
 ): ParameterNode | SchemaNodeUnion | undefined {
   if (!isRefNode(itemOrRef)) return itemOrRef;
 
-  const node = resolveRef(root, itemOrRef.$ref.value);
-  if (!node.isObject()) return;
+  const node = resolveRef(documents, itemOrRef);
+  if (!node?.isObject()) return;
 
   const inNode = node.children.find((n) => n.key.value === 'in')?.value;
   if (inNode?.isLiteral()) {
-    return resolveParam(root, itemOrRef);
+    return resolveParam(documents, itemOrRef);
   } else {
-    return resolveSchema(root, itemOrRef);
+    return resolveSchema(documents, itemOrRef);
   }
 }
 
@@ -161,32 +268,62 @@ function toSchemaOrRef(
 
   if (isRef(value)) return new RefNode(value);
 
-  if (value.isObject()) {
-    const typeNode = value.children.find((n) => n.key.value === 'type')?.value;
-    if (!typeNode) {
-      // Probably an allOf, anyOf, or oneOf
-      return new ObjectSchemaNode(value);
-    }
-    if (typeNode?.isLiteral()) {
-      switch (typeNode.value) {
-        case 'string':
-          return new StringSchemaNode(value);
-        case 'number':
-        case 'integer':
-          return new NumberSchemaNode(value);
-        case 'boolean':
-          return new BooleanSchemaNode(value);
-        case 'array':
-          return new ArraySchemaNode(value);
-        case 'object':
-          return new ObjectSchemaNode(value);
-      }
-    }
+  if (value.isLiteral() && typeof value.value === 'boolean') {
+    return new BooleanSubschemaNode(value);
   }
 
+  const schema = value.isObject() ? toSchema(value) : undefined;
+  if (schema) return schema;
+
   throw new Error('Unknown schema definition');
 }
 
+function toSchema(node: AST.ObjectNode): SchemaNodeUnion | undefined {
+  const typeNode = node.children.find((n) => n.key.value === 'type')?.value;
+  if (!typeNode) {
+    // Probably an allOf, anyOf, or oneOf
+    return new ObjectSchemaNode(node);
+  }
+
+  switch (primaryType(typeNode)) {
+    case 'string':
+      return new StringSchemaNode(node);
+    case 'integer':
+    case 'number':
+      return new NumberSchemaNode(node);
+    case 'boolean':
+      return new BooleanSchemaNode(node);
+    case 'null':
+      return new NullSchemaNode(node);
+    case 'array':
+      return new ArraySchemaNode(node);
+    case 'object':
+      return new ObjectSchemaNode(node);
+    default:
+      return;
+  }
+}
+
+function isNullType(node: AST.ASTNode): boolean {
+  return node.isLiteral() && (node.value === 'null' || node.value === null);
+}
+
+/**
+ * Returns the first non-null type of a `type` keyword. As of OAS 3.1, the
+ * keyword may be an array of types (eg. `["string", "null"]`). Schemas that
+ * only allow `null` return `"null"`.
+ */
+function primaryType(typeNode: AST.ASTNode): string | undefined {
+  if (isNullType(typeNode)) return 'null';
+  if (typeNode.isLiteral()) return `${typeNode.value}`;
+  if (!typeNode.isArray()) return;
+
+  const type = typeNode.children.find((child) => !isNullType(child));
+  if (!type) return typeNode.children.length ? 'null' : undefined;
+
+  return type.isLiteral() ? `${type.value}` : undefined;
+}
+
 function toSecuritySchemeOrRef(
   value: AST.ValueNode | undefined,
 ): SecuritySchemeNode | RefNode | undefined {
@@ -259,6 +396,11 @@ export class OpenAPINode extends DocumentNode {
     return this.getChild('paths', PathsNode);
   }
 
+  /** The incoming requests that the API may initiate (OAS 3.1) */
+  get webhooks() {
+    return this.getChild('webhooks', PathsNode);
+  }
+
   get components() {
     return this.getChild('components', ComponentsNode);
   }
@@ -515,6 +657,11 @@ export class OperationNode extends DocumentNode {
     return this.getLiteral<string>('operationId');
   }
 
+  /** The name of the interface that the operation belongs to (`x-interface`) */
+  get interfaceName() {
+    return this.getLiteral<string>('x-interface');
+  }
+
   get parameters() {
     const array = this.getProperty('parameters')?.value;
     if (!array) return;
@@ -853,14 +1000,68 @@ export class TagNode extends DocumentNode {
 
 // Done
 export abstract class SchemaNode extends DocumentNode {
+  /** All of the types of the schema, including `null` */
+  get types(): LiteralNode<string | null>[] {
+    const value = this.getProperty('type')?.value;
+    if (value?.isArray()) {
+      return value.children.map(
+        (child) => new LiteralNode<string | null>(child),
+      );
+    }
+
+    const type = this.getLiteral<string | null>('type');
+    return type ? [type] : [];
+  }
+
+  /** The first non-null type of the schema */
+  protected getType<T extends string>(): LiteralNode<T> {
+    const [type] = this.types.filter((t) => !isNullType(t.node));
+    return (type || this.types[0]) as LiteralNode<T>;
+  }
+
   get description() {
     return this.getLiteral<string>('description');
   }
 
+  get title() {
+    return this.getLiteral<string>('title');
+  }
+
+  /** The name of the schema's type (`x-basketry-name`) */
+  get basketryName() {
+    return this.getLiteral<string>('x-basketry-name');
+  }
+
   get nullable() {
     return this.getLiteral<boolean>('nullable');
   }
 
+  get readOnly() {
+    return this.getLiteral<boolean>('readOnly');
+  }
+
+  get writeOnly() {
+    return this.getLiteral<boolean>('writeOnly');
+  }
+
+  /** Identifiers for each `enum` value (`x-enum-varnames` or `x-enumNames`) */
+  get enumVarNames() {
+    return (
+      this.getChild('x-enum-varnames', StringArrayNode) ||
+      this.getChild('x-enumNames', StringArrayNode)
+    );
+  }
+
+  /** Descriptions of each `enum` value (`x-enum-descriptions`) */
+  get enumDescriptions() {
+    return this.getChild('x-enum-descriptions', StringArrayNode);
+  }
+
+  /** The `null` type of the schema, if any (eg. `["string", "null"]`) */
+  get nullType(): LiteralNode<string | null> | undefined {
+    return this.types.find((t) => isNullType(t.node));
+  }
+
   get externalDocs() {
     return this.getChild('externalDocs', ExternalDocumentationNode);
   }
@@ -879,7 +1080,7 @@ export class StringSchemaNode extends SchemaNode {
   public readonly nodeType = 'StringSchema';
 
   get type() {
-    return this.getLiteral<'string'>('type')!;
+    return this.getType<'string'>();
   }
 
   get default() {
@@ -916,7 +1117,7 @@ export class NumberSchemaNode extends SchemaNode {
   public readonly nodeType = 'NumberSchema';
 
   get type() {
-    return this.getLiteral<'integer' | 'number'>('type')!;
+    return this.getType<'integer' | 'number'>();
   }
 
   get default() {
@@ -927,6 +1128,10 @@ export class NumberSchemaNode extends SchemaNode {
     return this.getLiteral<number>('const');
   }
 
+  get enum() {
+    return this.getArray<LiteralNode<number>>('enum', LiteralNode);
+  }
+
   get multipleOf() {
     return this.getLiteral<number>('multipleOf');
   }
@@ -935,16 +1140,18 @@ export class NumberSchemaNode extends SchemaNode {
     return this.getLiteral<number>('minimum');
   }
 
+  /** A boolean in OAS 3.0; the exclusive minimum itself as of OAS 3.1 */
   get exclusiveMinimum() {
-    return this.getLiteral<boolean>('exclusiveMinimum');
+    return this.getLiteral<boolean | number>('exclusiveMinimum');
   }
 
   get maximum() {
     return this.getLiteral<number>('maximum');
   }
 
+  /** A boolean in OAS 3.0; the exclusive maximum itself as of OAS 3.1 */
   get exclusiveMaximum() {
-    return this.getLiteral<boolean>('exclusiveMaximum');
+    return this.getLiteral<boolean | number>('exclusiveMaximum');
   }
 
   get format() {
@@ -957,7 +1164,7 @@ export class BooleanSchemaNode extends SchemaNode {
   public readonly nodeType = 'BooleanSchema';
 
   get type() {
-    return this.getLiteral<'boolean'>('type')!;
+    return this.getType<'boolean'>();
   }
 
   get default() {
@@ -969,12 +1176,32 @@ export class BooleanSchemaNode extends SchemaNode {
   }
 }
 
+export class NullSchemaNode extends SchemaNode {
+  public readonly nodeType = 'NullSchema';
+
+  get type() {
+    return this.getType<'null'>();
+  }
+}
+
+/**
+ * A JSON Schema 2020-12 boolean schema (OAS 3.1): `true` allows any value and
+ * `false` allows none.
+ */
+export class BooleanSubschemaNode extends SchemaNode {
+  public readonly nodeType = 'BooleanSubschema';
+
+  get value(): boolean {
+    return this.node.isLiteral() && this.node.value === true;
+  }
+}
+
 // Done
 export class ArraySchemaNode extends SchemaNode {
   public readonly nodeType = 'ArraySchema';
 
   get type() {
-    return this.getLiteral<'array'>('type')!;
+    return this.getType<'array'>();
   }
 
   get description() {
@@ -985,6 +1212,14 @@ export class ArraySchemaNode extends SchemaNode {
     return toSchemaOrRef(this.getProperty('items')?.value);
   }
 
+  /** The schemas of the leading items of a tuple (JSON Schema 2020-12) */
+  get prefixItems() {
+    const prop = this.getProperty('prefixItems')?.value;
+    if (!prop?.isArray()) return;
+
+    return prop.children.map(toSchemaOrRef).filter(isSchemaOrRef);
+  }
+
   get minItems() {
     return this.getLiteral<number>('minItems');
   }
@@ -1004,6 +1239,12 @@ function isObjectSchemaOrRef(
   return node?.nodeType === 'ObjectSchema' || node?.nodeType === 'Ref';
 }
 
+function isSchemaOrRef(
+  node: RefNode | SchemaNodeUnion | undefined,
+): node is SchemaNodeUnion | RefNode {
+  return !!node;
+}
+
 // Done
 export class ObjectSchemaNode extends SchemaNode {
   public readonly nodeType = 'ObjectSchema';
@@ -1035,14 +1276,19 @@ export class ObjectSchemaNode extends SchemaNode {
     const prop = this.getProperty('oneOf')?.value;
     if (!prop?.isArray()) return;
 
-    return prop.children.map(toSchemaOrRef).filter(isObjectSchemaOrRef);
+    return prop.children.map(toSchemaOrRef).filter(isSchemaOrRef);
   }
 
   get anyOf() {
-    const prop = this.getProperty('oneOf')?.value;
+    const prop = this.getProperty('anyOf')?.value;
     if (!prop?.isArray()) return;
 
-    return prop.children.map(toSchemaOrRef).filter(isObjectSchemaOrRef);
+    return prop.children.map(toSchemaOrRef).filter(isSchemaOrRef);
+  }
+
+  /** How `anyOf` is parsed for this schema (`union` or `merge`) */
+  get anyOfMode() {
+    return this.getLiteral<string>('x-basketry-any-of');
   }
 
   get minProperties() {
@@ -1066,14 +1312,6 @@ export class ObjectSchemaNode extends SchemaNode {
   get discriminator() {
     return this.getChild('discriminator', DiscriminatorNode);
   }
-
-  get readOnly() {
-    return this.getLiteral<boolean>('readOnly');
-  }
-
-  get writeOnly() {
-    return this.getLiteral<boolean>('writeOnly');
-  }
 }
 
 // Done
@@ -1332,6 +1570,17 @@ export class MediaTypeIndexNode extends IndexNode<MediaTypeNode> {
   }
 }
 
+export class StringArrayNode extends DocumentNode {
+  public readonly nodeType = 'StringArray';
+
+  get values(): LiteralNode<string>[] {
+    const node = this.node;
+    if (!node.isArray()) return [];
+
+    return node.children.map((child) => new LiteralNode<string>(child));
+  }
+}
+
 export class StringMappingNode extends DocumentNode {
   public readonly nodeType = 'StringMapping';
 
@@ -1385,7 +1634,7 @@ export function isLiteral<T extends string | number | boolean | null>(
   return item?.nodeType === 'Literal';
 }
 
-function isRef(node: AST.ASTNode | undefined): boolean {
+export function isRef(node: AST.ASTNode | undefined): boolean {
   return !!(
     node?.isObject() && node.children.some((n) => n.key.value === '$ref')
   );